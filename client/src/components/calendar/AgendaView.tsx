@@ -0,0 +1,259 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Search, Repeat, Link2 } from "lucide-react";
+import { format, startOfDay } from "date-fns";
+import { cn } from "@/lib/utils";
+import { STATUS_LABELS, describeStatus, getStatusBadgeClass } from "@/lib/appointment-status";
+import { appointmentStatuses, type Appointment, type AppointmentPage, type Staff } from "@shared/schema";
+
+interface AgendaViewProps {
+  currentDate: Date;
+  onAppointmentSelect?: (appointment: Appointment) => void;
+  selectedAppointment?: Appointment | null;
+  selectedStaffIds?: string[];
+  showCancelled?: boolean;
+}
+
+interface AppointmentCategory {
+  id: number;
+  name: string;
+  color: string;
+}
+
+const PAGE_SIZE = 25;
+const ALL = "all";
+
+const formatTime = (value: Date | string) =>
+  new Date(value).toLocaleTimeString("nl-NL", { hour: "numeric", minute: "2-digit", hour12: false });
+
+// Chronological list of appointments from the current date on, grouped by day and staff
+// member, loaded a page at a time while scrolling
+export function AgendaView({
+  currentDate,
+  onAppointmentSelect,
+  selectedAppointment,
+  selectedStaffIds = [],
+  showCancelled = false,
+}: AgendaViewProps) {
+  const [searchText, setSearchText] = useState("");
+  const [query, setQuery] = useState("");
+  const [status, setStatus] = useState<string>(ALL);
+  const [category, setCategory] = useState<string>(ALL);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Search once typing pauses instead of on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(searchText.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const { data: staff = [] } = useQuery<Staff[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const { data: categories = [] } = useQuery<AppointmentCategory[]>({
+    queryKey: ["/api/appointment-categories"],
+  });
+
+  const params = useMemo(() => {
+    const search = new URLSearchParams({
+      limit: String(PAGE_SIZE),
+      start: startOfDay(currentDate).toISOString(),
+    });
+    if (query) search.set("q", query);
+    if (status !== ALL) {
+      search.set("status", status);
+    } else if (!showCancelled) {
+      search.set("status", appointmentStatuses.filter(s => s !== "cancelled").join(","));
+    }
+    if (selectedStaffIds.length > 0) search.set("staffId", selectedStaffIds.join(","));
+    if (category !== ALL) search.set("category", category);
+    return search.toString();
+  }, [currentDate, query, status, showCancelled, selectedStaffIds, category]);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<AppointmentPage>({
+    queryKey: ["/api/appointments", "agenda", params],
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam as string)}` : "";
+      const response = await fetch(`/api/appointments?${params}${cursor}`);
+      if (!response.ok) throw new Error("Failed to fetch appointments");
+      return response.json();
+    },
+    initialPageParam: null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  // Load the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Days in order, each with its staff members in the order of the staff list
+  const days = useMemo(() => {
+    const staffOrder = new Map(staff.map((member, index) => [member.id, index]));
+    const byDay = new Map<string, Map<string | null, Appointment[]>>();
+    for (const appointment of data?.pages.flatMap(page => page.appointments) ?? []) {
+      const dayKey = format(new Date(appointment.startTime), "yyyy-MM-dd");
+      const byStaff = byDay.get(dayKey) ?? new Map<string | null, Appointment[]>();
+      byStaff.set(appointment.staffId, [...(byStaff.get(appointment.staffId) ?? []), appointment]);
+      byDay.set(dayKey, byStaff);
+    }
+    return Array.from(byDay.entries()).map(([dayKey, byStaff]) => ({
+      dayKey,
+      date: new Date(`${dayKey}T00:00:00`),
+      groups: Array.from(byStaff.entries())
+        .map(([staffId, appointments]) => ({
+          staffMember: staff.find(member => member.id === staffId),
+          appointments,
+        }))
+        .sort((a, b) =>
+          (a.staffMember ? staffOrder.get(a.staffMember.id)! : Infinity) -
+          (b.staffMember ? staffOrder.get(b.staffMember.id)! : Infinity)
+        ),
+    }));
+  }, [data, staff]);
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden" data-testid="agenda-view">
+      {/* Search and filters */}
+      <div className="flex items-center gap-2 px-6 py-3 border-b border-border bg-card">
+        <div className="relative flex-1 max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" size={14} />
+          <Input
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Zoek op klant, dienst of notitie"
+            className="pl-9"
+            data-testid="input-agenda-search"
+          />
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-44" data-testid="select-agenda-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Alle statussen</SelectItem>
+            {appointmentStatuses.map((value) => (
+              <SelectItem key={value} value={value}>
+                {STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={category} onValueChange={setCategory}>
+          <SelectTrigger className="w-44" data-testid="select-agenda-category">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Alle categorieën</SelectItem>
+            {categories.map((item) => (
+              <SelectItem key={item.id} value={String(item.color)}>
+                {item.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar px-6 py-4">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : days.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-12 text-center" data-testid="text-agenda-empty">
+            Geen afspraken gevonden
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {days.map(({ dayKey, date, groups }) => (
+              <section key={dayKey} data-testid={`agenda-day-${dayKey}`}>
+                <h3 className="sticky top-0 z-10 bg-background py-1 text-sm font-semibold text-foreground border-b border-border mb-2">
+                  {date.toLocaleDateString("nl-NL", { weekday: "long", day: "numeric", month: "long", year: "numeric" })}
+                </h3>
+                <div className="space-y-3">
+                  {groups.map(({ staffMember, appointments }) => (
+                    <div key={staffMember?.id ?? "unassigned"}>
+                      <div className="flex items-center gap-2 mb-1">
+                        <span
+                          className="w-2 h-2 rounded-full"
+                          style={{ backgroundColor: staffMember?.color ?? "#808080" }}
+                        />
+                        <span className="text-xs font-medium text-muted-foreground">
+                          {staffMember?.name ?? "Geen medewerker"}
+                        </span>
+                      </div>
+                      <div className="rounded-md border border-border divide-y divide-border">
+                        {appointments.map((appointment) => (
+                          <button
+                            key={appointment.id}
+                            type="button"
+                            onClick={() => onAppointmentSelect?.(appointment)}
+                            className={cn(
+                              "w-full flex items-start gap-4 px-3 py-2 text-left hover:bg-muted/50 transition-colors",
+                              selectedAppointment?.id === appointment.id && "bg-primary/5",
+                              appointment.status === "cancelled" && "opacity-60"
+                            )}
+                            data-testid={`agenda-appointment-${appointment.id}`}
+                          >
+                            <span className="w-24 flex-shrink-0 text-sm tabular-nums text-foreground">
+                              {formatTime(appointment.startTime)} - {formatTime(appointment.endTime)}
+                            </span>
+                            <span className="flex-1 min-w-0">
+                              <span className={cn(
+                                "flex items-center gap-1.5 text-sm font-medium text-foreground truncate",
+                                appointment.status === "cancelled" && "line-through"
+                              )}>
+                                {appointment.customerName}
+                                {appointment.odooRecurrenceId && <Repeat size={12} className="text-muted-foreground" />}
+                                {appointment.visitId && <Link2 size={12} className="text-muted-foreground" />}
+                              </span>
+                              <span className="block text-xs text-muted-foreground truncate">{appointment.service}</span>
+                              {appointment.notes && (
+                                <span className="block text-xs text-muted-foreground/80 truncate" title={appointment.notes}>
+                                  {appointment.notes}
+                                </span>
+                              )}
+                            </span>
+                            <Badge className={getStatusBadgeClass(appointment.status)}>
+                              {describeStatus(appointment.status)}
+                            </Badge>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+
+        <div ref={loadMoreRef} className="flex justify-center py-4">
+          {isFetchingNextPage && <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,25 @@
 import { useMemo, useState, useRef } from "react";
-import { Clock, GripVertical } from "lucide-react";
+import { Clock, GripVertical, LogIn, Play, CheckCheck, UserX, Repeat, Link2 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import type { Appointment, Staff } from "@shared/schema";
+import { describeStatus } from "@/lib/appointment-status";
+import type { Appointment, AppointmentStatus, AppointmentTypeTiming, Staff } from "@shared/schema";
 
 interface AppointmentCardProps {
   appointment: Appointment;
   staff?: Staff;
   onDragStart?: (e: React.DragEvent, appointment: Appointment) => void;
   onDragEnd?: (e: React.DragEvent) => void;
+  // Called when the bottom-edge handle is grabbed; the grid tracks the pointer from there
+  onResizeStart?: (e: React.PointerEvent, appointment: Appointment) => void;
   onClick?: (appointment: Appointment) => void;
   isDragging?: boolean;
+  isResizing?: boolean;
   isSelected?: boolean;
+  // Number of segments in the appointment's visit, for multi-service bookings
+  visitSize?: number;
+  // Buffer and processing times of the service, drawn as hatched regions at this scale
+  timing?: AppointmentTypeTiming;
+  pixelsPerMinute?: number;
 }
 
 const SERVICE_COLORS = {
@@ -21,17 +30,40 @@ const SERVICE_COLORS = {
   "Consultation": "apt-consultation",
 } as const;
 
+// Style and icon per lifecycle status; confirmed and cancelled cards have their own handling
+const STATUS_STYLES: Partial<Record<AppointmentStatus, { className: string; icon: typeof LogIn; iconClassName: string }>> = {
+  checked_in: { className: "apt-status-checked-in", icon: LogIn, iconClassName: "text-amber-600" },
+  in_progress: { className: "apt-status-in-progress", icon: Play, iconClassName: "text-blue-600" },
+  completed: { className: "apt-status-completed", icon: CheckCheck, iconClassName: "text-green-600" },
+  no_show: { className: "apt-status-no-show", icon: UserX, iconClassName: "text-orange-600" },
+};
+
 export function AppointmentCard({ 
   appointment, 
   staff, 
   onDragStart, 
   onDragEnd, 
+  onResizeStart,
   onClick,
   isDragging = false,
-  isSelected = false 
+  isResizing = false,
+  isSelected = false,
+  visitSize,
+  timing,
+  pixelsPerMinute,
 }: AppointmentCardProps) {
   const [isDraggingLocal, setIsDraggingLocal] = useState(false);
+  // Cancelled appointments are shown for reference only and can't be dragged
+  const isCancelled = appointment.status === "cancelled";
+  const canDrag = !!onDragStart && !isCancelled;
+  const canResize = !!onResizeStart && !isCancelled;
+  const statusStyle = STATUS_STYLES[appointment.status as AppointmentStatus];
+  const StatusIcon = statusStyle?.icon;
+  // Cancelled appointments don't take up the stylist's time, so they show no buffers
+  const showTiming = !!timing && !!pixelsPerMinute && !isCancelled;
   const dragStartPos = useRef<{ x: number; y: number } | null>(null);
+  // Set while the resize handle is held, so the card itself doesn't start a move
+  const isResizingRef = useRef(false);
   
   const serviceColorClass = useMemo(() => {
     const service = appointment.service;
@@ -78,6 +110,11 @@ export function AppointmentCard({
   };
 
   const handleDragStart = (e: React.DragEvent) => {
+    if (isResizingRef.current) {
+      e.preventDefault();
+      return;
+    }
+    if (!canDrag) return;
     setIsDraggingLocal(true);
     if (onDragStart) {
       onDragStart(e, appointment);
@@ -92,6 +129,17 @@ export function AppointmentCard({
     }
   };
 
+  const handleResizePointerDown = (e: React.PointerEvent) => {
+    if (!canResize || !onResizeStart) return;
+    isResizingRef.current = true;
+    const release = () => {
+      isResizingRef.current = false;
+    };
+    window.addEventListener("pointerup", release, { once: true });
+    window.addEventListener("pointercancel", release, { once: true });
+    onResizeStart(e, appointment);
+  };
+
   const handleClick = (e: React.MouseEvent) => {
     // Only trigger click if we're not in a drag operation
     // Check if mouse moved significantly from drag start position
@@ -115,39 +163,97 @@ export function AppointmentCard({
   };
 
   return (
-    <div
-      className={cn(
-        "appointment-card rounded-md p-2 h-full w-full cursor-pointer transition-all overflow-hidden",
-        !categoryColor && serviceColorClass, // Only use service color if no category color
-        isDragging && "dragging opacity-50 transform rotate-1",
-        isSelected && "ring-4 ring-primary ring-offset-0 shadow-lg"
+    <div className="relative h-full w-full">
+      {showTiming && timing.preBufferMinutes > 0 && (
+        <div
+          className="apt-buffer absolute inset-x-0 rounded-t-md"
+          style={{ top: -timing.preBufferMinutes * pixelsPerMinute, height: timing.preBufferMinutes * pixelsPerMinute }}
+          title={`Voorbereiding: ${timing.preBufferMinutes} min`}
+          data-testid={`buffer-pre-${appointment.id}`}
+        />
       )}
-      style={categoryColor ? {
-        backgroundColor: `${categoryColor}20`, // 20 is ~12.5% opacity in hex
-        borderLeft: `4px solid ${categoryColor}`,
-      } : undefined}
-      draggable="true"
-      onMouseDown={handleMouseDown}
-      onDragStart={handleDragStart}
-      onDragEnd={handleDragEnd}
-      onClick={handleClick}
-      data-testid={`appointment-card-${appointment.id}`}
-    >
-      <div className="flex items-start justify-between mb-1">
-        <h4 className="font-semibold text-sm text-foreground truncate">
-          {appointment.customerName}
-        </h4>
-        <GripVertical className="text-muted-foreground text-xs flex-shrink-0 ml-1" size={12} />
-      </div>
-      
-      <p className="text-xs text-muted-foreground mb-1 truncate">
-        {appointment.service}
-      </p>
-      
-      <div className="flex items-center gap-2 text-xs text-muted-foreground">
-        <Clock size={10} />
-        <span>{appointment.duration} min</span>
+      <div
+        className={cn(
+          "appointment-card relative rounded-md p-2 h-full w-full cursor-pointer transition-all overflow-hidden",
+          !categoryColor && serviceColorClass, // Only use service color if no category color
+          isDragging && "dragging opacity-50 transform rotate-1",
+          isResizing && "resizing shadow-lg",
+          isCancelled && "opacity-50",
+          statusStyle?.className,
+          isSelected && "ring-4 ring-primary ring-offset-0 shadow-lg"
+        )}
+        style={categoryColor ? {
+          backgroundColor: `${categoryColor}20`, // 20 is ~12.5% opacity in hex
+          borderLeft: `4px solid ${categoryColor}`,
+        } : undefined}
+        draggable={canDrag ? "true" : "false"}
+        onMouseDown={handleMouseDown}
+        onDragStart={handleDragStart}
+        onDragEnd={handleDragEnd}
+        onClick={handleClick}
+        data-testid={`appointment-card-${appointment.id}`}
+      >
+        <div className="flex items-start justify-between mb-1">
+          <h4 className={cn("font-semibold text-sm text-foreground truncate", isCancelled && "line-through")}>
+            {appointment.customerName}
+          </h4>
+          {StatusIcon ? (
+            <span title={describeStatus(appointment.status)} className="flex-shrink-0 ml-1">
+              <StatusIcon className={statusStyle.iconClassName} size={12} data-testid={`icon-status-${appointment.status}`} />
+            </span>
+          ) : (
+            <GripVertical className="text-muted-foreground text-xs flex-shrink-0 ml-1" size={12} />
+          )}
+        </div>
+        
+        <p className={cn("text-xs text-muted-foreground mb-1 truncate", isCancelled && "line-through")}>
+          {appointment.service}
+        </p>
+        
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Clock size={10} />
+          <span>{appointment.duration} min</span>
+          {appointment.odooRecurrenceId && (
+            <span title="Herhalende afspraak">
+              <Repeat size={10} data-testid={`icon-recurring-${appointment.id}`} />
+            </span>
+          )}
+          {appointment.visitId && appointment.visitSegment !== null && (
+            <span className="flex items-center gap-0.5" title="Onderdeel van een bezoek met meerdere diensten" data-testid={`text-visit-segment-${appointment.id}`}>
+              <Link2 size={10} />
+              {appointment.visitSegment + 1}{visitSize ? `/${visitSize}` : ""}
+            </span>
+          )}
+        </div>
+
+        {showTiming && timing.processingMinutes > 0 && (
+          <div
+            className="apt-processing absolute inset-x-0 flex items-center justify-end pr-1 text-[10px] text-muted-foreground pointer-events-none"
+            style={{ top: timing.processingOffsetMinutes * pixelsPerMinute, height: timing.processingMinutes * pixelsPerMinute }}
+            data-testid={`processing-${appointment.id}`}
+          >
+            Vrij
+          </div>
+        )}
+
+        {canResize && (
+          <div
+            className="apt-resize-handle absolute inset-x-0 bottom-0 h-2 cursor-ns-resize"
+            onPointerDown={handleResizePointerDown}
+            onClick={(e) => e.stopPropagation()}
+            title="Sleep om de duur te wijzigen"
+            data-testid={`resize-handle-${appointment.id}`}
+          />
+        )}
       </div>
+      {showTiming && timing.postBufferMinutes > 0 && (
+        <div
+          className="apt-buffer absolute inset-x-0 rounded-b-md"
+          style={{ top: "100%", height: timing.postBufferMinutes * pixelsPerMinute }}
+          title={`Opruimen: ${timing.postBufferMinutes} min`}
+          data-testid={`buffer-post-${appointment.id}`}
+        />
+      )}
     </div>
   );
 }
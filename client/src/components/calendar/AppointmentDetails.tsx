@@ -1,31 +1,55 @@
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Calendar, 
   Clock, 
   Hourglass, 
   User, 
   Phone, 
+  Smartphone,
   Mail,
   CalendarPlus,
   XCircle,
   CheckCircle,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  RotateCcw,
+  Ban,
+  LogIn,
+  Play,
+  CheckCheck,
+  UserX,
+  Repeat
 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
-import type { Appointment, Staff } from "@shared/schema";
+import { cancellableStatuses, getAvailableTransitions, type Appointment, type AppointmentTransition, type Staff } from "@shared/schema";
+import { AppointmentHistory } from "./AppointmentHistory";
+import { describeCancellationReason } from "@/lib/cancellation";
+import { describeRecurrenceRule } from "@/lib/recurrence";
+import { describeStatus, getStatusBadgeClass, TRANSITION_LABELS } from "@/lib/appointment-status";
 
 interface AppointmentDetailsProps {
   appointment: Appointment | null;
   staff?: Staff[];
   onReschedule?: (appointment: Appointment) => void;
   onCancel?: (appointment: Appointment) => void;
+  onRestore?: (appointment: Appointment) => void;
+  isRestoring?: boolean;
+  onTransition?: (appointment: Appointment, transition: AppointmentTransition) => void;
+  pendingTransition?: AppointmentTransition | null;
   isCollapsed?: boolean;
   onToggleCollapse?: () => void;
 }
 
+const TRANSITION_ICONS: Record<AppointmentTransition, typeof LogIn> = {
+  "check-in": LogIn,
+  "start": Play,
+  "complete": CheckCheck,
+  "no-show": UserX,
+};
+
 interface AppointmentCategory {
   id: number;
   name: string;
@@ -37,6 +61,10 @@ export function AppointmentDetails({
   staff = [], 
   onReschedule, 
   onCancel,
+  onRestore,
+  isRestoring = false,
+  onTransition,
+  pendingTransition = null,
   isCollapsed = false,
   onToggleCollapse
 }: AppointmentDetailsProps) {
@@ -84,6 +112,17 @@ export function AppointmentDetails({
   }
 
   const appointmentStaff = staff.find(s => s.id === appointment.staffId);
+  const isCancelled = appointment.status === "cancelled";
+  const canChangeBooking = (cancellableStatuses as readonly string[]).includes(appointment.status);
+  const availableTransitions = getAvailableTransitions(appointment.status);
+
+  // When the appointment passed each step of the day, oldest first
+  const lifecycleSteps = [
+    { label: "Ingecheckt", at: appointment.checkedInAt },
+    { label: "Gestart", at: appointment.startedAt },
+    { label: "Afgerond", at: appointment.completedAt },
+    { label: "No-show gemeld", at: appointment.noShowAt },
+  ].filter(step => step.at);
   
   // Find the category for this appointment
   const appointmentCategory = categories.find(cat => cat.color === appointment.categoryColor);
@@ -105,19 +144,6 @@ export function AppointmentDetails({
     });
   };
 
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'confirmed':
-        return 'bg-primary/10 text-primary';
-      case 'completed':
-        return 'bg-green-100 text-green-800';
-      case 'cancelled':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-muted text-muted-foreground';
-    }
-  };
-  
   // Get category color for display
   const getCategoryColor = (colorIndex: string | null): string | null => {
     if (!colorIndex) return null;
@@ -149,134 +175,239 @@ export function AppointmentDetails({
           <ChevronRight size={20} />
         </Button>
       </div>
-      
-      <div className="bg-muted/50 rounded-lg p-4 border border-border">
-        <div className="flex items-start justify-between mb-4">
-          <div>
-            <h3 className="font-bold text-foreground mb-1">
-              {appointment.customerName}
-            </h3>
-            <p className="text-sm text-muted-foreground">
-              {appointment.service}
-            </p>
-          </div>
-          <Badge className={getStatusColor(appointment.status)}>
-            {appointment.status}
-          </Badge>
-        </div>
 
-        <div className="space-y-3">
-          <div className="flex items-center gap-3 text-sm">
-            <Calendar className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-            <span className="text-foreground">
-              {formatDate(new Date(appointment.startTime))}
-            </span>
-          </div>
+      <Tabs defaultValue="details">
+        <TabsList className="grid w-full grid-cols-2 mb-3">
+          <TabsTrigger value="details" data-testid="tab-appointment-details">Details</TabsTrigger>
+          <TabsTrigger value="history" data-testid="tab-appointment-history">Geschiedenis</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="mt-0">
+          <div className="bg-muted/50 rounded-lg p-4 border border-border">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="font-bold text-foreground mb-1">
+                  {appointment.customerName}
+                </h3>
+                <p className="text-sm text-muted-foreground">
+                  {appointment.service}
+                </p>
+              </div>
+              <Badge className={getStatusBadgeClass(appointment.status)} data-testid="badge-appointment-status">
+                {describeStatus(appointment.status)}
+              </Badge>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center gap-3 text-sm">
+                <Calendar className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-foreground">
+                  {formatDate(new Date(appointment.startTime))}
+                </span>
+              </div>
           
-          <div className="flex items-center gap-3 text-sm">
-            <Clock className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-            <span className="text-foreground">
-              {formatTime(new Date(appointment.startTime))} - {formatTime(new Date(appointment.endTime))}
-            </span>
-          </div>
+              <div className="flex items-center gap-3 text-sm">
+                <Clock className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-foreground">
+                  {formatTime(new Date(appointment.startTime))} - {formatTime(new Date(appointment.endTime))}
+                </span>
+              </div>
           
-          <div className="flex items-center gap-3 text-sm">
-            <Hourglass className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-            <span className="text-foreground">
-              {appointment.duration} minuten
-            </span>
-          </div>
+              <div className="flex items-center gap-3 text-sm">
+                <Hourglass className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                <span className="text-foreground">
+                  {appointment.duration} minuten
+                </span>
+              </div>
+
+              {appointment.recurrenceRule && (
+                <div className="flex items-center gap-3 text-sm" data-testid="text-recurrence">
+                  <Repeat className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <span className="text-foreground">
+                    {describeRecurrenceRule(appointment.recurrenceRule)}
+                  </span>
+                </div>
+              )}
           
-          {appointmentStaff && (
-            <div className="flex items-center gap-3 text-sm">
-              <User className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-              <span className="text-foreground">
-                {appointmentStaff.name}
-              </span>
-            </div>
-          )}
+              {appointmentStaff && (
+                <div className="flex items-center gap-3 text-sm">
+                  <User className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <span className="text-foreground">
+                    {appointmentStaff.name}
+                  </span>
+                </div>
+              )}
           
-          {appointmentCategory && (
-            <div className="flex items-center gap-3 text-sm">
-              <div 
-                className="w-4 h-4 rounded border-l-4 flex-shrink-0" 
-                style={{ 
-                  borderColor: categoryColor || '#808080', 
-                  backgroundColor: `${categoryColor || '#808080'}20` 
-                }}
-              />
-              <span className="text-foreground">
-                {appointmentCategory.name}
-              </span>
-            </div>
-          )}
+              {appointmentCategory && (
+                <div className="flex items-center gap-3 text-sm">
+                  <div 
+                    className="w-4 h-4 rounded border-l-4 flex-shrink-0" 
+                    style={{ 
+                      borderColor: categoryColor || '#808080', 
+                      backgroundColor: `${categoryColor || '#808080'}20` 
+                    }}
+                  />
+                  <span className="text-foreground">
+                    {appointmentCategory.name}
+                  </span>
+                </div>
+              )}
           
-          {appointment.customerPhone && (
-            <div className="flex items-center gap-3 text-sm">
-              <Phone className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-              <span className="text-foreground">
-                {appointment.customerPhone}
-              </span>
-            </div>
-          )}
+              {appointment.customerPhone && (
+                <div className="flex items-center gap-3 text-sm">
+                  <Phone className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <span className="text-foreground">
+                    {appointment.customerPhone}
+                  </span>
+                </div>
+              )}
           
-          {appointment.customerEmail && (
-            <div className="flex items-center gap-3 text-sm">
-              <Mail className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-              <span className="text-foreground">
-                {appointment.customerEmail}
-              </span>
+              {appointment.customerMobile && appointment.customerMobile !== appointment.customerPhone && (
+                <div className="flex items-center gap-3 text-sm">
+                  <Smartphone className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <span className="text-foreground">
+                    {appointment.customerMobile}
+                  </span>
+                </div>
+              )}
+          
+              {appointment.customerEmail && (
+                <div className="flex items-center gap-3 text-sm">
+                  <Mail className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                  <span className="text-foreground">
+                    {appointment.customerEmail}
+                  </span>
+                </div>
+              )}
             </div>
-          )}
-        </div>
 
-        {appointment.price && (
-          <>
-            <Separator className="my-4" />
-            <div className="flex items-center justify-between text-sm mb-2">
-              <span className="text-muted-foreground">Service Prijs</span>
-              <span className="font-semibold text-foreground">{appointment.price}</span>
-            </div>
-          </>
-        )}
+            {appointment.price && (
+              <>
+                <Separator className="my-4" />
+                <div className="flex items-center justify-between text-sm mb-2">
+                  <span className="text-muted-foreground">Service Prijs</span>
+                  <span className="font-semibold text-foreground">{appointment.price}</span>
+                </div>
+              </>
+            )}
 
-        {appointment.notes && (
-          <>
-            <Separator className="my-4" />
-            <div>
-              <p className="text-xs text-muted-foreground mb-1">Notities</p>
-              <div 
-                className="text-sm text-foreground prose prose-sm max-w-none"
-                dangerouslySetInnerHTML={{ __html: appointment.notes }}
-              />
-            </div>
-          </>
-        )}
+            {appointment.notes && (
+              <>
+                <Separator className="my-4" />
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Notities</p>
+                  <div 
+                    className="text-sm text-foreground prose prose-sm max-w-none"
+                    dangerouslySetInnerHTML={{ __html: appointment.notes }}
+                  />
+                </div>
+              </>
+            )}
 
-        <div className="mt-4 space-y-2">
-          <Button
-            variant="secondary"
-            size="sm"
-            className="w-full"
-            onClick={() => onReschedule?.(appointment)}
-            data-testid="button-reschedule-appointment"
-          >
-            <CalendarPlus className="mr-2 h-4 w-4" />
-            Verplaatsen
-          </Button>
-          
-          <Button
-            variant="outline"
-            size="sm"
-            className="w-full"
-            onClick={() => onCancel?.(appointment)}
-            data-testid="button-cancel-appointment"
-          >
-            <XCircle className="mr-2 h-4 w-4" />
-            Afspraak Annuleren
-          </Button>
-        </div>
-      </div>
+            {isCancelled && (
+              <>
+                <Separator className="my-4" />
+                <div className="flex items-start gap-3 text-sm" data-testid="text-cancellation-reason">
+                  <Ban className="w-4 h-4 text-red-600 flex-shrink-0 mt-0.5" />
+                  <div>
+                    <p className="text-foreground">{describeCancellationReason(appointment.cancellationReason)}</p>
+                    {appointment.cancelledAt && (
+                      <p className="text-xs text-muted-foreground">
+                        Geannuleerd op {new Date(appointment.cancelledAt).toLocaleString('nl-NL')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {isCancelled && onRestore && (
+              <div className="mt-4">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => onRestore(appointment)}
+                  disabled={isRestoring}
+                  data-testid="button-restore-appointment"
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  {isRestoring ? "Herstellen..." : "Annulering Ongedaan Maken"}
+                </Button>
+              </div>
+            )}
+
+            {lifecycleSteps.length > 0 && (
+              <>
+                <Separator className="my-4" />
+                <div className="space-y-1" data-testid="list-lifecycle-steps">
+                  {lifecycleSteps.map(step => (
+                    <div key={step.label} className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">{step.label}</span>
+                      <span className="text-foreground">{formatTime(new Date(step.at!))}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {onTransition && availableTransitions.length > 0 && (
+              <div className="mt-4 grid grid-cols-2 gap-2">
+                {availableTransitions.map(transition => {
+                  const Icon = TRANSITION_ICONS[transition];
+                  return (
+                    <Button
+                      key={transition}
+                      variant={transition === "no-show" ? "outline" : "default"}
+                      size="sm"
+                      onClick={() => onTransition(appointment, transition)}
+                      disabled={pendingTransition !== null}
+                      data-testid={`button-transition-${transition}`}
+                    >
+                      <Icon className="mr-2 h-4 w-4" />
+                      {TRANSITION_LABELS[transition]}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+
+            {canChangeBooking && (onReschedule || onCancel) && (
+              <div className="mt-4 space-y-2">
+                {onReschedule && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => onReschedule(appointment)}
+                    data-testid="button-reschedule-appointment"
+                  >
+                    <CalendarPlus className="mr-2 h-4 w-4" />
+                    Verplaatsen
+                  </Button>
+                )}
+
+                {onCancel && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => onCancel(appointment)}
+                    data-testid="button-cancel-appointment"
+                  >
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Afspraak Annuleren
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="history" className="mt-0">
+          <AppointmentHistory appointmentId={appointment.id} staff={staff} />
+        </TabsContent>
+      </Tabs>
 
       {/* Quick Stats */}
       <div className="mt-6 grid grid-cols-2 gap-3">
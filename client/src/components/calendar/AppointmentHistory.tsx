@@ -0,0 +1,131 @@
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ArrowRight } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import type { AppointmentHistoryEntry, AuditedAppointmentFields, Staff } from "@shared/schema";
+import { describeStatus } from "@/lib/appointment-status";
+
+interface AppointmentHistoryProps {
+  appointmentId: string;
+  staff?: Staff[];
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  created: "Aangemaakt",
+  booked: "Geboekt",
+  imported: "Geïmporteerd",
+  updated: "Gewijzigd",
+  rescheduled: "Verplaatst",
+  cancelled: "Geannuleerd",
+  restored: "Hersteld",
+  "check-in": "Ingecheckt",
+  start: "Gestart",
+  complete: "Afgerond",
+  "no-show": "No-show gemeld",
+  deleted: "Verwijderd",
+};
+
+const ODOO_STATUS: Record<string, { label: string; className: string }> = {
+  synced: { label: "Odoo bijgewerkt", className: "bg-green-100 text-green-800" },
+  queued: { label: "Wacht op Odoo", className: "bg-amber-100 text-amber-800" },
+  local: { label: "Alleen lokaal", className: "bg-muted text-muted-foreground" },
+  odoo: { label: "Vanuit Odoo", className: "bg-primary/10 text-primary" },
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("nl-NL", {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("nl-NL", { hour: "numeric", minute: "2-digit", hour12: false });
+
+export function AppointmentHistory({ appointmentId, staff = [] }: AppointmentHistoryProps) {
+  const { data: history = [], isLoading } = useQuery<AppointmentHistoryEntry[]>({
+    queryKey: ["/api/appointments", appointmentId, "history"],
+  });
+
+  const staffName = (staffId: string | null) =>
+    staffId ? staff.find(s => s.id === staffId)?.name ?? "Onbekend" : "Geen";
+
+  // One line per audited field that changed; for creations and deletions the whole
+  // appointment is shown as it was
+  const describeChanges = (before: AuditedAppointmentFields | null, after: AuditedAppointmentFields | null) => {
+    const snapshot = after ?? before;
+    if (!snapshot) return [];
+    const slot = (fields: AuditedAppointmentFields) =>
+      `${formatDateTime(fields.startTime)} - ${formatTime(fields.endTime)}`;
+
+    if (!before || !after) {
+      return [
+        { label: "Tijd", value: slot(snapshot) },
+        { label: "Medewerker", value: staffName(snapshot.staffId) },
+        { label: "Status", value: describeStatus(snapshot.status) },
+      ];
+    }
+
+    const changes: { label: string; value: string }[] = [];
+    if (before.startTime !== after.startTime || before.endTime !== after.endTime) {
+      changes.push({ label: "Tijd", value: `${slot(before)} → ${slot(after)}` });
+    }
+    if (before.staffId !== after.staffId) {
+      changes.push({ label: "Medewerker", value: `${staffName(before.staffId)} → ${staffName(after.staffId)}` });
+    }
+    if (before.status !== after.status) {
+      changes.push({ label: "Status", value: `${describeStatus(before.status)} → ${describeStatus(after.status)}` });
+    }
+    return changes;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (history.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-4" data-testid="text-history-empty">
+        Nog geen wijzigingen vastgelegd
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="list-appointment-history">
+      {history.map((entry) => {
+        const odooStatus = ODOO_STATUS[entry.odooStatus] ?? ODOO_STATUS.local;
+        return (
+          <div key={entry.id} className="rounded-md border border-border p-3 text-sm" data-testid={`history-entry-${entry.id}`}>
+            <div className="flex items-start justify-between gap-2 mb-1">
+              <div>
+                <span className="font-semibold text-foreground">
+                  {ACTION_LABELS[entry.action] ?? entry.action}
+                </span>
+                <span className="text-muted-foreground"> door {entry.actorName}</span>
+              </div>
+              <Badge className={odooStatus.className}>{odooStatus.label}</Badge>
+            </div>
+            <p className="text-xs text-muted-foreground mb-2">
+              {new Date(entry.createdAt).toLocaleString("nl-NL")}
+            </p>
+            <div className="space-y-1">
+              {describeChanges(entry.before, entry.after).map((change) => (
+                <div key={change.label} className="flex items-start gap-2 text-xs">
+                  <ArrowRight className="w-3 h-3 mt-0.5 text-muted-foreground flex-shrink-0" />
+                  <span className="text-muted-foreground">{change.label}:</span>
+                  <span className="text-foreground">{change.value}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Timer } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AppointmentTypeTiming } from "@shared/schema";
+
+interface AppointmentType {
+  id: number;
+  name: string;
+  appointment_duration: number;
+}
+
+type TimingFields = Pick<
+  AppointmentTypeTiming,
+  "preBufferMinutes" | "postBufferMinutes" | "processingOffsetMinutes" | "processingMinutes"
+>;
+
+const EMPTY_TIMING: TimingFields = {
+  preBufferMinutes: 0,
+  postBufferMinutes: 0,
+  processingOffsetMinutes: 0,
+  processingMinutes: 0,
+};
+
+const FIELDS: { key: keyof TimingFields; label: string; title: string }[] = [
+  { key: "preBufferMinutes", label: "Voor", title: "Voorbereidingstijd voor de dienst" },
+  { key: "postBufferMinutes", label: "Na", title: "Opruimtijd na de dienst" },
+  { key: "processingOffsetMinutes", label: "Vrij na", title: "Minuten na de start waarop de medewerker vrij is" },
+  { key: "processingMinutes", label: "Vrij", title: "Hoe lang de medewerker vrij is (inwerktijd), 0 voor nooit" },
+];
+
+// Buffer and processing times per appointment type, edited in the settings panel
+export function AppointmentTypeTimings() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  // Unsaved edits per appointment type
+  const [drafts, setDrafts] = useState<Record<number, TimingFields>>({});
+
+  const { data: appointmentTypes = [] } = useQuery<AppointmentType[]>({
+    queryKey: ["/api/appointment-types"],
+  });
+
+  const { data: timings = [] } = useQuery<AppointmentTypeTiming[]>({
+    queryKey: ["/api/appointment-type-timings"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ typeId, timing }: { typeId: number; timing: TimingFields }) => {
+      const response = await apiRequest("PUT", `/api/appointment-type-timings/${typeId}`, timing);
+      return response.json();
+    },
+    onSuccess: (_timing, { typeId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointment-type-timings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability"] });
+      setDrafts(prev => {
+        const { [typeId]: _draft, ...rest } = prev;
+        return rest;
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Opslaan Mislukt",
+        description: error.message || "Kan buffertijden niet opslaan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const savedTiming = (typeId: number): TimingFields => {
+    const timing = timings.find(t => t.odooAppointmentTypeId === typeId);
+    return timing ?? EMPTY_TIMING;
+  };
+
+  const updateDraft = (typeId: number, key: keyof TimingFields, value: string) => {
+    setDrafts(prev => ({
+      ...prev,
+      [typeId]: { ...(prev[typeId] ?? savedTiming(typeId)), [key]: Math.max(0, parseInt(value) || 0) },
+    }));
+  };
+
+  return (
+    <div className="mb-6">
+      <Label className="block text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <Timer className="text-primary" size={16} />
+        Buffertijden per Dienst
+      </Label>
+      <div className="space-y-3">
+        {appointmentTypes.map((type) => {
+          const draft = drafts[type.id];
+          const timing = draft ?? savedTiming(type.id);
+          return (
+            <div key={type.id} className="rounded-md border border-border p-2" data-testid={`timing-type-${type.id}`}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium truncate" title={type.name}>{type.name}</span>
+                {draft && (
+                  <Button
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    onClick={() => saveMutation.mutate({ typeId: type.id, timing: draft })}
+                    disabled={saveMutation.isPending}
+                    data-testid={`button-save-timing-${type.id}`}
+                  >
+                    Opslaan
+                  </Button>
+                )}
+              </div>
+              <div className="grid grid-cols-4 gap-1">
+                {FIELDS.map((field) => (
+                  <div key={field.key} title={field.title}>
+                    <Label className="text-[10px] text-muted-foreground block mb-0.5">{field.label}</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={timing[field.key]}
+                      onChange={(e) => updateDraft(type.id, field.key, e.target.value)}
+                      className="h-7 px-1 text-xs"
+                      data-testid={`input-timing-${field.key}-${type.id}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        In minuten. Tijdens de vrije tijd kan de medewerker een andere klant helpen.
+      </p>
+    </div>
+  );
+}
@@ -8,11 +8,15 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Calendar, Clock, User, Mail, Phone, Loader2, Check, ChevronsUpDown } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calendar, Clock, User, Mail, Phone, Loader2, Check, ChevronsUpDown, ChevronUp, ChevronDown, AlertTriangle, CalendarSearch, Repeat } from "lucide-react";
 import { format } from "date-fns";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { describeAvailabilityReason, getAvailabilityReasons, getOccurrenceConflicts } from "@/lib/availability";
+import { MAX_OCCURRENCES, type AvailabilityReason, type AvailableSlot, type OccurrenceConflict, type RecurrenceRule } from "@shared/schema";
 
 interface AppointmentType {
   id: number;
@@ -31,6 +35,13 @@ interface Partner {
   mobile: string | false;
 }
 
+interface SelectedSlot {
+  date?: Date;
+  time?: string;
+  staffId?: string;
+  staffName?: string;
+}
+
 interface BookAppointmentDialogProps {
   open: boolean;
   onClose: () => void;
@@ -38,6 +49,8 @@ interface BookAppointmentDialogProps {
   selectedTime?: string;
   selectedStaffId?: string;
   selectedStaffName?: string;
+  // Service to start with, e.g. the one a free time was picked for
+  selectedAppointmentTypeId?: number;
 }
 
 export function BookAppointmentDialog({
@@ -46,16 +59,37 @@ export function BookAppointmentDialog({
   selectedDate,
   selectedTime,
   selectedStaffId,
-  selectedStaffName
+  selectedStaffName,
+  selectedAppointmentTypeId,
 }: BookAppointmentDialogProps) {
   const { toast } = useToast();
   const [customerName, setCustomerName] = useState("");
   const [customerEmail, setCustomerEmail] = useState("");
   const [customerPhone, setCustomerPhone] = useState("");
+  // Selected services in the order they're performed; each becomes a segment of the visit
   const [selectedTypes, setSelectedTypes] = useState<number[]>([]);
+  // Staff chosen per service, where it differs from the default
+  const [segmentStaff, setSegmentStaff] = useState<Record<number, string>>({});
   const [selectedPartnerId, setSelectedPartnerId] = useState<number | null>(null);
   const [partnerSearchOpen, setPartnerSearchOpen] = useState(false);
   const [partnerSearchQuery, setPartnerSearchQuery] = useState("");
+  const [refusalReasons, setRefusalReasons] = useState<AvailabilityReason[]>([]);
+  const [occurrenceConflicts, setOccurrenceConflicts] = useState<OccurrenceConflict[]>([]);
+  // Recurrence: weekly, every N weeks, ending after a number of times or on a date
+  const [repeat, setRepeat] = useState(false);
+  const [intervalWeeks, setIntervalWeeks] = useState(6);
+  const [endType, setEndType] = useState<RecurrenceRule["endType"]>("count");
+  const [occurrenceCount, setOccurrenceCount] = useState(6);
+  const [untilDate, setUntilDate] = useState("");
+  // The slot being booked: the one clicked in the calendar, or one picked from the suggestions
+  const [slot, setSlot] = useState<SelectedSlot>({});
+
+  useEffect(() => {
+    if (open) {
+      setSlot({ date: selectedDate, time: selectedTime, staffId: selectedStaffId, staffName: selectedStaffName });
+      if (selectedAppointmentTypeId !== undefined) setSelectedTypes([selectedAppointmentTypeId]);
+    }
+  }, [open, selectedDate, selectedTime, selectedStaffId, selectedStaffName, selectedAppointmentTypeId]);
 
   const { data: appointmentTypes = [], isLoading } = useQuery<AppointmentType[]>({
     queryKey: ["/api/appointment-types"],
@@ -80,33 +114,75 @@ export function BookAppointmentDialog({
     enabled: open && partnerSearchOpen,
   });
 
-  // Get the Odoo resource ID for the selected staff member
-  const selectedStaff = staffMembers.find(s => s.id === selectedStaffId);
-  const selectedResourceId = selectedStaff?.odooUserId;
-
-  // Filter appointment types to only show those compatible with the selected staff
-  const compatibleAppointmentTypes = appointmentTypes.filter(type => {
-    // If no resource_ids specified, the type is available for all resources
-    if (!type.resource_ids || type.resource_ids.length === 0) {
-      return true;
-    }
-    // Otherwise, check if the selected resource is in the allowed list
-    return selectedResourceId && type.resource_ids.includes(selectedResourceId);
+  // Next free slots for the selected services, searching from the clicked slot onwards
+  const { data: availability, isLoading: isLoadingAvailability } = useQuery<{ durationMinutes: number; slots: AvailableSlot[] }>({
+    queryKey: ["/api/availability", selectedTypes.join(","), selectedStaffId, selectedDate?.toDateString(), selectedTime],
+    queryFn: async () => {
+      const params = new URLSearchParams({ appointmentTypeIds: selectedTypes.join(","), limit: "6" });
+      if (selectedStaffId) params.set("staffId", selectedStaffId);
+      if (selectedDate) {
+        const from = new Date(selectedDate);
+        if (selectedTime) {
+          const [hours, minutes] = selectedTime.split(':').map(Number);
+          from.setHours(hours, minutes, 0, 0);
+        }
+        params.set("start", from.toISOString());
+      }
+      const response = await fetch(`/api/availability?${params}`);
+      if (!response.ok) throw new Error('Failed to fetch availability');
+      return response.json();
+    },
+    enabled: open && selectedTypes.length > 0,
   });
 
+  // If no resource_ids are specified, the type is available for all resources
+  const canPerform = (member: any, type: AppointmentType) =>
+    !type.resource_ids || type.resource_ids.length === 0 || type.resource_ids.includes(member.odooUserId);
+
+  const activeStaff = staffMembers.filter(member => member.isActive);
+  const selectedStaff = staffMembers.find(s => s.id === slot.staffId);
+
+  // Only show services someone can perform; services the selected staff member can't do
+  // are assigned to a colleague who can
+  const compatibleAppointmentTypes = appointmentTypes.filter(type =>
+    (selectedStaff && canPerform(selectedStaff, type)) || activeStaff.some(member => canPerform(member, type))
+  );
+
+  // Staff member for a service: the one picked for it, otherwise the slot's staff member
+  // when they can perform it, otherwise the first colleague who can
+  const staffForType = (typeId: number): string | undefined => {
+    if (segmentStaff[typeId]) return segmentStaff[typeId];
+    const type = appointmentTypes.find(t => t.id === typeId);
+    if (!type) return slot.staffId;
+    if (selectedStaff && canPerform(selectedStaff, type)) return selectedStaff.id;
+    return activeStaff.find(member => canPerform(member, type))?.id;
+  };
+
   const createAppointmentMutation = useMutation({
     mutationFn: async (data: any) => {
-      return apiRequest("POST", "/api/appointments/book", data);
+      const response = await apiRequest("POST", "/api/appointments/book", data);
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { occurrenceCount?: number }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"], exact: false });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability"], exact: false });
       toast({
         title: "Succesvol",
-        description: "Afspraak succesvol geboekt!",
+        description: result.occurrenceCount && result.occurrenceCount > 1
+          ? `Reeks van ${result.occurrenceCount} afspraken succesvol geboekt!`
+          : "Afspraak succesvol geboekt!",
       });
       handleClose();
     },
     onError: (error: any) => {
+      // A refused slot is explained in the dialog instead of a toast; for a series,
+      // every occurrence that can't be booked is listed
+      const reasons = getAvailabilityReasons(error);
+      if (reasons.length > 0) {
+        setRefusalReasons(reasons);
+        setOccurrenceConflicts(repeat ? getOccurrenceConflicts(error) : []);
+        return;
+      }
       toast({
         title: "Fout",
         description: error.message || "Kon afspraak niet boeken",
@@ -121,11 +197,30 @@ export function BookAppointmentDialog({
       setCustomerEmail("");
       setCustomerPhone("");
       setSelectedTypes([]);
+      setSegmentStaff({});
       setSelectedPartnerId(null);
       setPartnerSearchQuery("");
+      setRefusalReasons([]);
+      setOccurrenceConflicts([]);
+      setRepeat(false);
+      setIntervalWeeks(6);
+      setEndType("count");
+      setOccurrenceCount(6);
+      setUntilDate("");
     }
   }, [open]);
 
+  // Clear a previous refusal when the slot, services, staff or recurrence change
+  useEffect(() => {
+    setRefusalReasons([]);
+    setOccurrenceConflicts([]);
+  }, [slot, selectedTypes, segmentStaff, repeat, intervalWeeks, endType, occurrenceCount, untilDate]);
+
+  // Another staff member for the slot (e.g. from a suggestion) becomes everyone's default again
+  useEffect(() => {
+    setSegmentStaff({});
+  }, [slot.staffId]);
+
   const handlePartnerSelect = (partnerId: number) => {
     const partner = partners.find(p => p.id === partnerId);
     if (partner) {
@@ -137,6 +232,21 @@ export function BookAppointmentDialog({
     }
   };
 
+  const handleSuggestionSelect = (suggestion: AvailableSlot) => {
+    const start = new Date(suggestion.start);
+    setSlot({
+      date: start,
+      time: format(start, 'HH:mm'),
+      staffId: suggestion.staffId,
+      staffName: suggestion.staffName,
+    });
+  };
+
+  const isSuggestionSelected = (suggestion: AvailableSlot) =>
+    suggestion.staffId === slot.staffId &&
+    slot.date !== undefined &&
+    format(new Date(suggestion.start), 'yyyy-MM-dd HH:mm') === `${format(slot.date, 'yyyy-MM-dd')} ${slot.time}`;
+
   const handleClose = () => {
     onClose();
   };
@@ -149,6 +259,30 @@ export function BookAppointmentDialog({
     );
   };
 
+  const moveSegment = (index: number, offset: -1 | 1) => {
+    setSelectedTypes(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  // Start and end of each selected service, back to back from the slot's time
+  const planSegments = () => {
+    if (!slot.date || !slot.time) return [];
+    const [hours, minutes] = slot.time.split(':').map(Number);
+    const cursor = new Date(slot.date);
+    cursor.setHours(hours, minutes, 0, 0);
+
+    return selectedTypes.flatMap(typeId => {
+      const type = appointmentTypes.find(t => t.id === typeId);
+      if (!type) return [];
+      const start = new Date(cursor);
+      cursor.setMinutes(cursor.getMinutes() + Math.round(type.appointment_duration * 60));
+      return [{ type, start, end: new Date(cursor), staffId: staffForType(typeId) }];
+    });
+  };
+
   const calculateTotalDuration = () => {
     return selectedTypes.reduce((total, typeId) => {
       const type = appointmentTypes.find(t => t.id === typeId);
@@ -175,7 +309,7 @@ export function BookAppointmentDialog({
       return;
     }
 
-    if (!selectedDate || !selectedTime || !selectedStaffId) {
+    if (!slot.date || !slot.time || !slot.staffId) {
       toast({
         title: "Fout",
         description: "Selecteer een tijdslot in de kalender",
@@ -184,26 +318,42 @@ export function BookAppointmentDialog({
       return;
     }
 
-    const totalDuration = calculateTotalDuration();
-    const [hours, minutes] = selectedTime.split(':').map(Number);
-    const startTime = new Date(selectedDate);
-    startTime.setHours(hours, minutes, 0, 0);
-    
-    const endTime = new Date(startTime);
-    endTime.setMinutes(endTime.getMinutes() + totalDuration * 60);
+    const segments = planSegments();
+    if (segments.some(segment => !segment.staffId)) {
+      toast({
+        title: "Validatiefout",
+        description: "Kies een medewerker voor elke dienst",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (repeat && endType === "end_date" && !untilDate) {
+      toast({
+        title: "Validatiefout",
+        description: "Kies een einddatum voor de herhaling",
+        variant: "destructive",
+      });
+      return;
+    }
+    const recurrence: RecurrenceRule | undefined = repeat
+      ? endType === "count"
+        ? { intervalWeeks, endType, count: occurrenceCount }
+        : { intervalWeeks, endType, until: untilDate }
+      : undefined;
 
     createAppointmentMutation.mutate({
       customerName,
       customerEmail,
       customerPhone,
-      appointmentTypeIds: selectedTypes,
-      startTime: startTime.toISOString(),
-      endTime: endTime.toISOString(),
-      staffId: selectedStaffId,
+      segments: segments.map(segment => ({ appointmentTypeId: segment.type.id, staffId: segment.staffId })),
+      startTime: segments[0].start.toISOString(),
       partnerId: selectedPartnerId || undefined,
+      recurrence,
     });
   };
 
+  const plannedSegments = planSegments();
   const totalDuration = calculateTotalDuration();
   const totalHours = Math.floor(totalDuration);
   const totalMinutes = Math.round((totalDuration - totalHours) * 60);
@@ -221,25 +371,57 @@ export function BookAppointmentDialog({
         <ScrollArea className="max-h-[60vh] pr-4">
           <div className="space-y-6">
             {/* Selected Time Info */}
-            {selectedDate && selectedTime && (
+            {slot.date && slot.time && (
               <div className="bg-muted p-4 rounded-lg space-y-2">
                 <div className="flex items-center gap-2 text-sm">
                   <Calendar className="h-4 w-4" />
-                  <span>{format(selectedDate, 'EEEE, MMMM d, yyyy')}</span>
+                  <span>{format(slot.date, 'EEEE, MMMM d, yyyy')}</span>
                 </div>
                 <div className="flex items-center gap-2 text-sm">
                   <Clock className="h-4 w-4" />
-                  <span>{selectedTime}</span>
+                  <span>{slot.time}</span>
                 </div>
-                {selectedStaffName && (
+                {slot.staffName && (
                   <div className="flex items-center gap-2 text-sm">
                     <User className="h-4 w-4" />
-                    <span>{selectedStaffName}</span>
+                    <span>{slot.staffName}</span>
                   </div>
                 )}
               </div>
             )}
 
+            {refusalReasons.length > 0 && (
+              <Alert variant="destructive" data-testid="alert-slot-unavailable">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>
+                  {occurrenceConflicts.length > 0
+                    ? `${occurrenceConflicts.length} ${occurrenceConflicts.length === 1 ? "afspraak" : "afspraken"} uit de reeks niet beschikbaar`
+                    : "Dit tijdslot is niet beschikbaar"}
+                </AlertTitle>
+                <AlertDescription>
+                  {occurrenceConflicts.length > 0 ? (
+                    <ul className="list-disc pl-4 space-y-1" data-testid="list-occurrence-conflicts">
+                      {occurrenceConflicts.map((conflict) => (
+                        <li key={conflict.start}>
+                          <span className="font-medium">{format(new Date(conflict.start), 'EEE d MMM yyyy, HH:mm')}</span>
+                          {": "}
+                          {conflict.reasons.map(describeAvailabilityReason).join(". ")}
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <ul className="list-disc pl-4 space-y-1">
+                      {refusalReasons.map((reason, index) => (
+                        <li key={index} title={reason.message}>
+                          {describeAvailabilityReason(reason)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Customer Information */}
             <div className="space-y-4">
               <h3 className="font-semibold">Klantgegevens</h3>
@@ -372,8 +554,7 @@ export function BookAppointmentDialog({
                 </div>
               ) : compatibleAppointmentTypes.length === 0 ? (
                 <div className="text-center py-8 text-muted-foreground">
-                  <p>Geen diensten beschikbaar voor {selectedStaffName || 'deze medewerker'}.</p>
-                  <p className="text-sm mt-2">Selecteer een ander tijdslot.</p>
+                  <p>Geen diensten beschikbaar.</p>
                 </div>
               ) : (
                 <div className="space-y-2">
@@ -407,6 +588,177 @@ export function BookAppointmentDialog({
                 </div>
               )}
             </div>
+
+            {/* Order and staff per service; the services are booked back to back */}
+            {(plannedSegments.length > 1 || plannedSegments.some(segment => segment.staffId !== slot.staffId)) && (
+              <div className="space-y-2" data-testid="panel-visit-segments">
+                <h3 className="font-semibold">Volgorde en medewerkers</h3>
+                {plannedSegments.map((segment, index) => (
+                  <div
+                    key={segment.type.id}
+                    className="flex items-center gap-3 p-2 rounded-lg border"
+                    data-testid={`visit-segment-${index}`}
+                  >
+                    <div className="flex flex-col">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        disabled={index === 0}
+                        onClick={() => moveSegment(index, -1)}
+                        aria-label="Eerder"
+                        data-testid={`button-segment-up-${index}`}
+                      >
+                        <ChevronUp className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-5 w-5"
+                        disabled={index === plannedSegments.length - 1}
+                        onClick={() => moveSegment(index, 1)}
+                        aria-label="Later"
+                        data-testid={`button-segment-down-${index}`}
+                      >
+                        <ChevronDown className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{segment.type.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {format(segment.start, 'HH:mm')} - {format(segment.end, 'HH:mm')}
+                      </p>
+                    </div>
+                    <Select
+                      value={segment.staffId ?? ""}
+                      onValueChange={(staffId) => setSegmentStaff(prev => ({ ...prev, [segment.type.id]: staffId }))}
+                    >
+                      <SelectTrigger className="w-44" data-testid={`select-segment-staff-${index}`}>
+                        <SelectValue placeholder="Medewerker" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activeStaff.filter(member => canPerform(member, segment.type)).map((member) => (
+                          <SelectItem key={member.id} value={member.id}>
+                            {member.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Recurrence */}
+            <div className="space-y-3" data-testid="panel-recurrence">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="repeat"
+                  checked={repeat}
+                  onCheckedChange={(checked) => setRepeat(checked === true)}
+                  data-testid="checkbox-repeat"
+                />
+                <label htmlFor="repeat" className="flex items-center gap-2 font-semibold cursor-pointer">
+                  <Repeat className="h-4 w-4" />
+                  Herhalende afspraak
+                </label>
+              </div>
+
+              {repeat && (
+                <div className="grid grid-cols-2 gap-3 pl-7">
+                  <div className="space-y-2">
+                    <Label htmlFor="intervalWeeks">Elke ... weken</Label>
+                    <Input
+                      id="intervalWeeks"
+                      type="number"
+                      min={1}
+                      max={52}
+                      value={intervalWeeks}
+                      onChange={(e) => setIntervalWeeks(Math.max(1, Number(e.target.value) || 1))}
+                      data-testid="input-interval-weeks"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Eindigt</Label>
+                    <Select value={endType} onValueChange={(value) => setEndType(value as RecurrenceRule["endType"])}>
+                      <SelectTrigger data-testid="select-recurrence-end">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="count">Na aantal keer</SelectItem>
+                        <SelectItem value="end_date">Op datum</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {endType === "count" ? (
+                    <div className="space-y-2">
+                      <Label htmlFor="occurrenceCount">Aantal keer</Label>
+                      <Input
+                        id="occurrenceCount"
+                        type="number"
+                        min={2}
+                        max={MAX_OCCURRENCES}
+                        value={occurrenceCount}
+                        onChange={(e) => setOccurrenceCount(Math.min(MAX_OCCURRENCES, Math.max(2, Number(e.target.value) || 2)))}
+                        data-testid="input-occurrence-count"
+                      />
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label htmlFor="untilDate">Tot en met</Label>
+                      <Input
+                        id="untilDate"
+                        type="date"
+                        value={untilDate}
+                        min={slot.date ? format(slot.date, 'yyyy-MM-dd') : undefined}
+                        onChange={(e) => setUntilDate(e.target.value)}
+                        data-testid="input-until-date"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Next available slots for the selected services */}
+            {selectedTypes.length > 0 && (
+              <div className="space-y-3" data-testid="panel-next-available">
+                <div className="flex items-center gap-2">
+                  <CalendarSearch className="h-4 w-4" />
+                  <h3 className="font-semibold">Eerstvolgende Beschikbare Tijden</h3>
+                </div>
+
+                {isLoadingAvailability ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Beschikbaarheid zoeken...
+                  </div>
+                ) : !availability || availability.slots.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Geen vrije tijden gevonden in de komende twee weken.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    {availability.slots.map((suggestion) => (
+                      <Button
+                        key={`${suggestion.staffId}-${suggestion.start}`}
+                        variant={isSuggestionSelected(suggestion) ? "default" : "outline"}
+                        className="h-auto flex-col items-start py-2"
+                        onClick={() => handleSuggestionSelect(suggestion)}
+                        data-testid={`button-suggested-slot-${suggestion.staffId}-${suggestion.start}`}
+                      >
+                        <span className="text-sm font-medium">
+                          {format(new Date(suggestion.start), 'EEE d MMM, HH:mm')}
+                        </span>
+                        <span className="text-xs opacity-80">{suggestion.staffName}</span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </ScrollArea>
 
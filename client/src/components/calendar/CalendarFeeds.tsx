@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Rss, Copy, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CalendarFeed, Staff } from "@shared/schema";
+
+const WHOLE_SALON = "salon";
+
+const feedUrl = (feed: CalendarFeed) => `${window.location.origin}/api/feeds/${feed.token}.ics`;
+
+// Read-only iCalendar feeds per staff member or for the whole salon, to subscribe to from
+// Google Calendar, Apple Calendar or Outlook. Revoking a feed stops its URL from working.
+export function CalendarFeeds() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [newFeedStaffId, setNewFeedStaffId] = useState<string>(WHOLE_SALON);
+
+  const { data: staff = [] } = useQuery<Staff[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const { data: feeds = [] } = useQuery<CalendarFeed[]>({
+    queryKey: ["/api/feeds"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (staffId: string | null) => {
+      const response = await apiRequest("POST", "/api/feeds", { staffId });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Aanmaken Mislukt",
+        description: error.message || "Kan agenda-abonnement niet aanmaken",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/feeds/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Intrekken Mislukt",
+        description: error.message || "Kan agenda-abonnement niet intrekken",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feedUrl(feed));
+      toast({ title: "Link Gekopieerd", description: "Plak de link in je agenda-app als abonnement" });
+    } catch {
+      toast({ title: "Kopiëren Mislukt", description: "Selecteer de link en kopieer hem handmatig", variant: "destructive" });
+    }
+  };
+
+  const feedLabel = (feed: CalendarFeed) =>
+    feed.staffId ? staff.find(member => member.id === feed.staffId)?.name ?? "Onbekende medewerker" : "Hele salon";
+
+  return (
+    <div className="mb-6">
+      <Label className="block text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <Rss className="text-primary" size={16} />
+        Agenda-abonnementen
+      </Label>
+      <div className="space-y-2">
+        {feeds.map((feed) => (
+          <div key={feed.id} className="rounded-md border border-border p-2" data-testid={`calendar-feed-${feed.id}`}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-sm font-medium truncate">{feedLabel(feed)}</span>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => copyUrl(feed)}
+                  title="Link kopiëren"
+                  data-testid={`button-copy-feed-${feed.id}`}
+                >
+                  <Copy size={12} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-destructive"
+                  onClick={() => revokeMutation.mutate(feed.id)}
+                  disabled={revokeMutation.isPending}
+                  title="Intrekken"
+                  data-testid={`button-revoke-feed-${feed.id}`}
+                >
+                  <Trash2 size={12} />
+                </Button>
+              </div>
+            </div>
+            <Input
+              readOnly
+              value={feedUrl(feed)}
+              onFocus={(e) => e.target.select()}
+              className="h-7 px-1 text-xs font-mono"
+              data-testid={`input-feed-url-${feed.id}`}
+            />
+            <p className="text-[10px] text-muted-foreground mt-1">
+              Aangemaakt door {feed.createdBy} · {feed.lastAccessedAt
+                ? `laatst opgehaald ${new Date(feed.lastAccessedAt).toLocaleString("nl-NL", { dateStyle: "short", timeStyle: "short" })}`
+                : "nog niet opgehaald"}
+            </p>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 mt-2">
+        <Select value={newFeedStaffId} onValueChange={setNewFeedStaffId}>
+          <SelectTrigger className="h-8 text-xs" data-testid="select-new-feed-staff">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={WHOLE_SALON}>Hele salon</SelectItem>
+            {staff.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          className="h-8 text-xs"
+          onClick={() => createMutation.mutate(newFeedStaffId === WHOLE_SALON ? null : newFeedStaffId)}
+          disabled={createMutation.isPending}
+          data-testid="button-create-feed"
+        >
+          Aanmaken
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        Iedereen met de link kan de afspraken zien. Trek een link in als hij niet meer gebruikt wordt.
+      </p>
+    </div>
+  );
+}
@@ -2,19 +2,56 @@ import { useState, useMemo, useCallback, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { AppointmentCard } from "./AppointmentCard";
 import { BookAppointmentDialog } from "./BookAppointmentDialog";
+import { DayBookingPicker } from "./DayBookingPicker";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
+import { describeAvailabilityReason, getAvailabilityReasons } from "@/lib/availability";
+import { layoutLanes, type LaneLayout } from "@/lib/appointment-layout";
+import { useAuth } from "@/hooks/use-auth";
 import { format, addMinutes, startOfDay, endOfDay, isSameDay, startOfWeek, endOfWeek, startOfMonth, endOfMonth, addDays, eachDayOfInterval } from "date-fns";
-import type { Appointment, Staff, CalendarSettings } from "@shared/schema";
+import type { Appointment, AppointmentTypeTiming, Staff, CalendarSettings, StaffLeave } from "@shared/schema";
 
-type ViewMode = 'day' | 'week' | 'month';
+type ViewMode = 'day' | 'week' | 'month' | 'timeline';
+
+// Timeline view: width of one time slot, height of one staff row
+const TIMELINE_SLOT_WIDTH_PX = 48;
+const TIMELINE_ROW_HEIGHT_PX = 72;
 
 interface CalendarGridProps {
   currentDate: Date;
   viewMode: ViewMode;
+  // Number of days the timeline view spans from currentDate (1-14)
+  timelineDays?: number;
   onAppointmentSelect: (appointment: Appointment) => void;
   selectedAppointment?: Appointment | null;
   selectedStaffIds?: string[];
+  showCancelled?: boolean;
+}
+
+// Odoo category color index (0-11) to a hex color; other values are taken as colors already
+function getCategoryColor(colorIndex: string | null): string | null {
+  if (!colorIndex) return null;
+
+  const odooColors = [
+    '#F06050', '#F4A460', '#F7CD1F', '#6CC1ED', 
+    '#814968', '#EB7E7F', '#2C8397', '#475577', 
+    '#D6145F', '#30C381', '#9365B8', '#808080'
+  ];
+
+  const index = parseInt(colorIndex);
+  return !isNaN(index) && index >= 0 && index < odooColors.length 
+    ? odooColors[index] 
+    : colorIndex;
+}
+
+// Availability refusals list their reasons; anything else gets a generic message
+function reportRescheduleError(error: unknown) {
+  console.error("Failed to reschedule appointment:", error);
+  const reasons = getAvailabilityReasons(error);
+  alert(reasons.length > 0
+    ? reasons.map(describeAvailabilityReason).join("\n")
+    : "Failed to reschedule appointment");
 }
 
 export function CalendarGrid({ 
@@ -22,10 +59,17 @@ export function CalendarGrid({
   viewMode,
   onAppointmentSelect, 
   selectedAppointment,
-  selectedStaffIds = []
+  selectedStaffIds = [],
+  showCancelled = false,
+  timelineDays = 7,
 }: CalendarGridProps) {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  // Stylists see the calendar read-only: no booking from empty slots and no dragging
+  const canEditAppointments = user?.role === "admin" || user?.role === "receptionist";
   const [draggedAppointment, setDraggedAppointment] = useState<Appointment | null>(null);
+  // Appointment whose bottom edge is being dragged, with the pointer's start and the snapped duration so far
+  const [resizing, setResizing] = useState<{ appointment: Appointment; startY: number; duration: number } | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
   const [bookingDialogOpen, setBookingDialogOpen] = useState(false);
   const [selectedSlot, setSelectedSlot] = useState<{
@@ -33,7 +77,10 @@ export function CalendarGrid({
     time: string;
     staffId: string;
     staffName: string;
+    appointmentTypeId?: number;
   } | null>(null);
+  // Month view day whose free times are being picked from
+  const [dayPickerDate, setDayPickerDate] = useState<Date | null>(null);
 
   // Update current time every minute
   useEffect(() => {
@@ -60,30 +107,26 @@ export function CalendarGrid({
     queryKey: ["/api/settings"],
   });
 
-  const { data: appointments = [] } = useQuery<Appointment[]>({
-    queryKey: ["/api/appointments", currentDate.toISOString(), viewMode],
+  // Date range covered by the current view
+  const { startDate, endDate } = useMemo(() => {
+    switch (viewMode) {
+      case 'week':
+        return {
+          startDate: startOfWeek(currentDate, { weekStartsOn: 1 }), // Monday
+          endDate: endOfWeek(currentDate, { weekStartsOn: 1 }),
+        };
+      case 'month':
+        return { startDate: startOfMonth(currentDate), endDate: endOfMonth(currentDate) };
+      case 'timeline':
+        return { startDate: startOfDay(currentDate), endDate: endOfDay(addDays(currentDate, timelineDays - 1)) };
+      default:
+        return { startDate: startOfDay(currentDate), endDate: endOfDay(currentDate) };
+    }
+  }, [currentDate, viewMode, timelineDays]);
+
+  const { data: fetchedAppointments = [] } = useQuery<Appointment[]>({
+    queryKey: ["/api/appointments", startDate.toISOString(), endDate.toISOString()],
     queryFn: async () => {
-      let startDate: Date;
-      let endDate: Date;
-      
-      switch (viewMode) {
-        case 'day':
-          startDate = startOfDay(currentDate);
-          endDate = endOfDay(currentDate);
-          break;
-        case 'week':
-          startDate = startOfWeek(currentDate, { weekStartsOn: 1 }); // Monday
-          endDate = endOfWeek(currentDate, { weekStartsOn: 1 });
-          break;
-        case 'month':
-          startDate = startOfMonth(currentDate);
-          endDate = endOfMonth(currentDate);
-          break;
-        default:
-          startDate = startOfDay(currentDate);
-          endDate = endOfDay(currentDate);
-      }
-      
       const response = await fetch(
         `/api/appointments?start=${startDate.toISOString()}&end=${endDate.toISOString()}`
       );
@@ -92,6 +135,43 @@ export function CalendarGrid({
     },
   });
 
+  // Cancelled appointments are only shown on request, in a lane next to the active ones they overlap
+  const appointments = useMemo(
+    () => showCancelled ? fetchedAppointments : fetchedAppointments.filter(apt => apt.status !== "cancelled"),
+    [fetchedAppointments, showCancelled]
+  );
+
+  // Number of segments per visit, for the "1/2" marker on segment cards
+  const visitSizes = useMemo(() => {
+    const sizes = new Map<string, number>();
+    for (const apt of fetchedAppointments) {
+      if (apt.visitId) sizes.set(apt.visitId, (sizes.get(apt.visitId) ?? 0) + 1);
+    }
+    return sizes;
+  }, [fetchedAppointments]);
+
+  // Buffer and processing times per appointment type, drawn around and on the cards
+  const { data: typeTimings = [] } = useQuery<AppointmentTypeTiming[]>({
+    queryKey: ["/api/appointment-type-timings"],
+  });
+  const timingsByType = useMemo(
+    () => new Map(typeTimings.map(timing => [timing.odooAppointmentTypeId, timing])),
+    [typeTimings]
+  );
+
+  // Time off and public holidays, shaded as blocked in the day and week views
+  const { data: leaves = [] } = useQuery<StaffLeave[]>({
+    queryKey: ["/api/leaves", startDate.toISOString(), endDate.toISOString()],
+    queryFn: async () => {
+      const response = await fetch(
+        `/api/leaves?start=${startDate.toISOString()}&end=${endDate.toISOString()}`
+      );
+      if (!response.ok) throw new Error("Failed to fetch leaves");
+      return response.json();
+    },
+    enabled: viewMode !== 'month',
+  });
+
   const rescheduleAppointmentMutation = useMutation({
     mutationFn: async ({ 
       appointmentId, 
@@ -118,6 +198,7 @@ export function CalendarGrid({
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/outbox"] });
     },
   });
 
@@ -128,23 +209,13 @@ export function CalendarGrid({
     let endHour = parseInt(settings?.workingHoursEnd?.split(':')[0] || "17");
     
     // Expand time range to include appointments outside working hours
-    if (appointments.length > 0 && (viewMode === 'day' || viewMode === 'week')) {
+    if (appointments.length > 0 && viewMode !== 'month') {
       appointments.forEach(apt => {
         const aptStart = new Date(apt.startTime);
         const aptEnd = new Date(apt.endTime);
         
-        // For day view, check if appointment is on current date
-        // For week view, check if appointment is in the week range
-        let isInRange = false;
-        if (viewMode === 'day') {
-          isInRange = isSameDay(aptStart, currentDate);
-        } else if (viewMode === 'week') {
-          const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
-          const weekEnd = endOfWeek(currentDate, { weekStartsOn: 1 });
-          isInRange = aptStart >= weekStart && aptStart <= weekEnd;
-        }
-        
-        if (isInRange) {
+        // Only appointments in the days on screen count
+        if (aptStart >= startDate && aptStart <= endDate) {
           startHour = Math.min(startHour, aptStart.getHours());
           endHour = Math.max(endHour, aptEnd.getHours() + 1);
         }
@@ -164,7 +235,7 @@ export function CalendarGrid({
     }
     
     return slots;
-  }, [currentDate, settings, appointments, viewMode]);
+  }, [currentDate, settings, appointments, viewMode, startDate, endDate]);
 
   // Calculate current time marker position
   const currentTimeMarkerStyle = useMemo(() => {
@@ -185,22 +256,36 @@ export function CalendarGrid({
     };
   }, [currentTime, currentDate, settings]);
 
-  // Get appointments for a specific time slot and staff member
-  const getAppointmentForSlot = useCallback((slotTime: Date, staffMember: Staff) => {
-    return appointments.find(apt => {
+  // Appointments of a staff member starting within a time slot; each is drawn from the slot
+  // it starts in, offset when it starts between slot boundaries
+  const getAppointmentsForSlot = useCallback((slotTime: Date, staffMember: Staff) => {
+    const slotEnd = addMinutes(slotTime, settings?.timeInterval || 15);
+    return appointments.filter(apt => {
       const aptStart = new Date(apt.startTime);
-      // Match by date, hour, and minute (not exact millisecond) and staff member
-      return apt.staffId === staffMember.id && 
-             isSameDay(aptStart, slotTime) &&
-             aptStart.getHours() === slotTime.getHours() &&
-             aptStart.getMinutes() === slotTime.getMinutes();
+      return apt.staffId === staffMember.id && aptStart >= slotTime && aptStart < slotEnd;
     });
+  }, [appointments, settings]);
+
+  // Side-by-side lanes for overlapping appointments (double bookings from Odoo, or cancelled
+  // ones shown next to their replacement), packed per staff member per day
+  const laneLayout = useMemo(() => {
+    const columns = new Map<string, Appointment[]>();
+    for (const apt of appointments) {
+      if (!apt.staffId) continue;
+      const key = `${apt.staffId}|${format(new Date(apt.startTime), 'yyyy-MM-dd')}`;
+      columns.set(key, [...(columns.get(key) ?? []), apt]);
+    }
+    const layout = new Map<string, LaneLayout>();
+    for (const column of Array.from(columns.values())) {
+      layoutLanes(column).forEach((lane, id) => layout.set(id, lane));
+    }
+    return layout;
   }, [appointments]);
 
   // Check if a time slot should show as busy (appointment continues from previous slot)
   const isSlotBusy = useCallback((slotTime: Date, staffMember: Staff) => {
     return appointments.some(apt => {
-      if (apt.staffId !== staffMember.id) return false;
+      if (apt.staffId !== staffMember.id || apt.status === "cancelled") return false;
       
       const aptStart = new Date(apt.startTime);
       const aptEnd = new Date(apt.endTime);
@@ -209,6 +294,43 @@ export function CalendarGrid({
     });
   }, [appointments]);
 
+  // The leave (personal or public holiday) covering this slot for a staff member, if any
+  const getLeaveForSlot = useCallback((slotTime: Date, staffMember: Staff) => {
+    return leaves.find(leave => {
+      const applies = leave.staffId
+        ? leave.staffId === staffMember.id
+        : leave.resourceCalendarId === null || leave.resourceCalendarId === staffMember.resourceCalendarId;
+      return applies && slotTime >= new Date(leave.startTime) && slotTime < new Date(leave.endTime);
+    });
+  }, [leaves]);
+
+  // Minutes a staff member works on a day: their Odoo working hours, or the salon's hours
+  // on days it's open. The month view's occupancy bar compares bookings against this.
+  const getWorkingMinutes = useCallback((day: Date, staffMember: Staff) => {
+    const inactiveDays = (settings?.inactiveDays ?? "")
+      .split(",")
+      .filter(value => value.trim() !== "")
+      .map(Number);
+    if (inactiveDays.includes(day.getDay())) return 0;
+
+    if (staffMember.workingHours) {
+      try {
+        const odooDayOfWeek = (day.getDay() + 6) % 7; // Odoo uses 0=Monday
+        return JSON.parse(staffMember.workingHours)
+          .filter((wh: any) => wh.dayOfWeek === odooDayOfWeek)
+          .reduce((total: number, wh: any) => total + (wh.hourTo - wh.hourFrom) * 60, 0);
+      } catch (error) {
+        console.error("Failed to parse working hours:", error);
+      }
+    }
+
+    const toMinutes = (clock: string) => {
+      const [hours, minutes] = clock.split(':').map(Number);
+      return hours * 60 + (minutes || 0);
+    };
+    return Math.max(0, toMinutes(settings?.workingHoursEnd || "17:00") - toMinutes(settings?.workingHoursStart || "09:00"));
+  }, [settings]);
+
   // Check if staff member is available at this time based on their working hours
   const isStaffAvailable = useCallback((slotTime: Date, staffMember: Staff) => {
     // If no working hours defined, assume available (fallback to global settings)
@@ -239,6 +361,13 @@ export function CalendarGrid({
     }
   }, []);
 
+  // The segments of a visit move together, so dragging one shows all of them as dragged
+  const isInDraggedVisit = useCallback((appointment: Appointment) => {
+    if (!draggedAppointment) return false;
+    return draggedAppointment.id === appointment.id ||
+      (!!draggedAppointment.visitId && appointment.visitId === draggedAppointment.visitId);
+  }, [draggedAppointment]);
+
   const handleDragStart = useCallback((e: React.DragEvent, appointment: Appointment) => {
     setDraggedAppointment(appointment);
     e.dataTransfer.effectAllowed = 'move';
@@ -268,8 +397,7 @@ export function CalendarGrid({
     const newEndTime = addMinutes(newStartTime, draggedAppointment.duration);
     
     // Check if slot is already occupied
-    const existingAppointment = getAppointmentForSlot(slotTime, staffMember);
-    if (existingAppointment && existingAppointment.id !== draggedAppointment.id) {
+    if (getAppointmentsForSlot(slotTime, staffMember).some(apt => !isInDraggedVisit(apt))) {
       alert("This time slot is already occupied");
       return;
     }
@@ -283,12 +411,103 @@ export function CalendarGrid({
         staffId: staffMember.id, // Include staff ID for cross-column moves
       });
     } catch (error) {
-      console.error("Failed to reschedule appointment:", error);
-      alert("Failed to reschedule appointment");
+      reportRescheduleError(error);
     }
-  }, [draggedAppointment, getAppointmentForSlot, rescheduleAppointmentMutation]);
+  }, [draggedAppointment, getAppointmentsForSlot, isInDraggedVisit, rescheduleAppointmentMutation]);
+
+  const handleResizeStart = useCallback((e: React.PointerEvent, appointment: Appointment) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setResizing({ appointment, startY: e.clientY, duration: appointment.duration });
+  }, []);
+
+  // While resizing, follow the pointer anywhere on the page and snap the duration to the
+  // time interval; on release the new end goes through the reschedule endpoint
+  useEffect(() => {
+    if (!resizing) return;
+    const interval = settings?.timeInterval || 15;
+    const pixelsPerMinute = 60 / interval;
+    const { appointment, startY } = resizing;
+    const durationAt = (clientY: number) => Math.max(
+      interval,
+      appointment.duration + Math.round((clientY - startY) / pixelsPerMinute / interval) * interval
+    );
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const duration = durationAt(e.clientY);
+      setResizing(prev => prev && prev.duration !== duration ? { ...prev, duration } : prev);
+    };
+    const handlePointerUp = async (e: PointerEvent) => {
+      const duration = durationAt(e.clientY);
+      setResizing(null);
+      if (duration === appointment.duration) return;
+
+      const startTime = new Date(appointment.startTime);
+      try {
+        await rescheduleAppointmentMutation.mutateAsync({
+          appointmentId: appointment.id,
+          startTime,
+          endTime: addMinutes(startTime, duration),
+        });
+      } catch (error) {
+        reportRescheduleError(error);
+      }
+    };
+    const handlePointerCancel = () => setResizing(null);
+
+    window.addEventListener("pointermove", handlePointerMove);
+    window.addEventListener("pointerup", handlePointerUp);
+    window.addEventListener("pointercancel", handlePointerCancel);
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove);
+      window.removeEventListener("pointerup", handlePointerUp);
+      window.removeEventListener("pointercancel", handlePointerCancel);
+    };
+    // Only re-subscribe when a new resize starts, not on every snapped step
+  }, [resizing?.appointment.id, resizing?.startY, settings?.timeInterval]);
+
+  // Height of an appointment's card, following the pointer while it's being resized
+  const displayedDuration = (appointment: Appointment) =>
+    resizing?.appointment.id === appointment.id ? resizing.duration : appointment.duration;
+
+  // An appointment's card in its lane, positioned from the top of the slot it starts in
+  const renderAppointmentCard = (appointment: Appointment, slotTime: Date, staffMember: Staff) => {
+    const pixelsPerMinute = 60 / (settings?.timeInterval || 15);
+    const { lane, laneCount } = laneLayout.get(appointment.id) ?? { lane: 0, laneCount: 1 };
+    const offsetMinutes = (new Date(appointment.startTime).getTime() - slotTime.getTime()) / 60000;
+
+    return (
+      <div
+        key={appointment.id}
+        className={cn("absolute z-10", laneCount > 1 && "pr-0.5")}
+        style={{
+          top: `${offsetMinutes * pixelsPerMinute}px`,
+          height: `${displayedDuration(appointment) * pixelsPerMinute}px`,
+          left: `${(lane / laneCount) * 100}%`,
+          width: `${100 / laneCount}%`,
+        }}
+        data-testid={`appointment-lane-${appointment.id}`}
+      >
+        <AppointmentCard
+          appointment={appointment}
+          staff={staffMember}
+          onDragStart={canEditAppointments ? handleDragStart : undefined}
+          onDragEnd={handleDragEnd}
+          onResizeStart={canEditAppointments ? handleResizeStart : undefined}
+          onClick={onAppointmentSelect}
+          isDragging={isInDraggedVisit(appointment)}
+          isResizing={resizing?.appointment.id === appointment.id}
+          visitSize={appointment.visitId ? visitSizes.get(appointment.visitId) : undefined}
+          timing={appointment.odooAppointmentTypeId ? timingsByType.get(appointment.odooAppointmentTypeId) : undefined}
+          pixelsPerMinute={pixelsPerMinute}
+          isSelected={selectedAppointment?.id === appointment.id}
+        />
+      </div>
+    );
+  };
 
   const handleSlotClick = useCallback((slotTime: Date, staffMember: Staff) => {
+    if (!canEditAppointments) return;
     setSelectedSlot({
       date: slotTime,
       time: format(slotTime, 'HH:mm'),
@@ -296,7 +515,7 @@ export function CalendarGrid({
       staffName: staffMember.name
     });
     setBookingDialogOpen(true);
-  }, []);
+  }, [canEditAppointments]);
 
   const formatTimeSlot = (time: Date, isMainSlot: boolean = false) => {
     if (isMainSlot) {
@@ -363,17 +582,12 @@ export function CalendarGrid({
                   <div className="flex flex-1">
                     {staff.length > 0 ? (
                       staff.map((staffMember, staffIndex) => {
-                        const appointment = getAppointmentForSlot(slotTime, staffMember);
-                        const isBusy = !appointment && isSlotBusy(slotTime, staffMember);
+                        const slotAppointments = getAppointmentsForSlot(slotTime, staffMember);
+                        const hasAppointment = slotAppointments.length > 0;
+                        const isBusy = !hasAppointment && isSlotBusy(slotTime, staffMember);
                         const isAvailable = isStaffAvailable(slotTime, staffMember);
-                        
-                        // Calculate appointment height based on duration
-                        const interval = settings?.timeInterval || 15;
-                        const slotHeightPx = 60; // Each slot is 60px tall
-                        const appointmentHeight = appointment 
-                          ? (appointment.duration / interval) * slotHeightPx 
-                          : 0;
-                        
+                        const leave = !hasAppointment ? getLeaveForSlot(slotTime, staffMember) : undefined;
+
                         return (
                           <div
                             key={staffMember.id}
@@ -381,31 +595,18 @@ export function CalendarGrid({
                               "flex-1 time-slot relative min-h-[60px] transition-colors",
                               staffIndex < staff.length - 1 && "border-r border-border",
                               isBusy && "availability-busy bg-red-50/30",
-                              !isAvailable && !appointment && "availability-unavailable bg-muted/40",
-                              !appointment && !isBusy && isAvailable && "availability-available hover:bg-primary/5",
-                              !appointment && !isBusy && "cursor-pointer"
+                              leave && "availability-leave",
+                              !leave && !isAvailable && !hasAppointment && "availability-unavailable bg-muted/40",
+                              !hasAppointment && !isBusy && !leave && isAvailable && "availability-available hover:bg-primary/5",
+                              !hasAppointment && !isBusy && !leave && "cursor-pointer"
                             )}
+                            title={leave?.name}
                             onDragOver={handleDragOver}
                             onDrop={(e) => handleDrop(e, slotTime, staffMember)}
-                            onClick={() => !appointment && !isBusy && handleSlotClick(slotTime, staffMember)}
+                            onClick={() => !hasAppointment && !isBusy && !leave && handleSlotClick(slotTime, staffMember)}
                             data-testid={`time-slot-${staffMember.name.replace(' ', '-').toLowerCase()}-${format(slotTime, 'HH-mm')}`}
                           >
-                            {appointment && (
-                              <div 
-                                className="absolute inset-0 z-10"
-                                style={{ height: `${appointmentHeight}px` }}
-                              >
-                                <AppointmentCard
-                                  appointment={appointment}
-                                  staff={staffMember}
-                                  onDragStart={handleDragStart}
-                                  onDragEnd={handleDragEnd}
-                                  onClick={onAppointmentSelect}
-                                  isDragging={draggedAppointment?.id === appointment.id}
-                                  isSelected={selectedAppointment?.id === appointment.id}
-                                />
-                              </div>
-                            )}
+                            {slotAppointments.map(apt => renderAppointmentCard(apt, slotTime, staffMember))}
                           </div>
                         );
                       })
@@ -428,17 +629,12 @@ export function CalendarGrid({
                             const slotDateTime = new Date(day);
                             slotDateTime.setHours(slotTime.getHours(), slotTime.getMinutes(), 0, 0);
                             
-                            const appointment = getAppointmentForSlot(slotDateTime, staffMember);
-                            const isBusy = !appointment && isSlotBusy(slotDateTime, staffMember);
+                            const slotAppointments = getAppointmentsForSlot(slotDateTime, staffMember);
+                            const hasAppointment = slotAppointments.length > 0;
+                            const isBusy = !hasAppointment && isSlotBusy(slotDateTime, staffMember);
                             const isAvailable = isStaffAvailable(slotDateTime, staffMember);
-                            
-                            // Calculate appointment height based on duration
-                            const interval = settings?.timeInterval || 15;
-                            const slotHeightPx = 60;
-                            const appointmentHeight = appointment 
-                              ? (appointment.duration / interval) * slotHeightPx 
-                              : 0;
-                            
+                            const leave = !hasAppointment ? getLeaveForSlot(slotDateTime, staffMember) : undefined;
+
                             const isLastStaffInDay = staffIndex === staff.length - 1;
                             const isLastDay = dayIndex === displayDays.length - 1;
                             
@@ -450,31 +646,18 @@ export function CalendarGrid({
                                   !isLastStaffInDay && "border-r border-border/50",
                                   isLastStaffInDay && !isLastDay && "border-r-2 border-border",
                                   isBusy && "availability-busy bg-red-50/30",
-                                  !isAvailable && !appointment && "availability-unavailable bg-muted/40",
-                                  !appointment && !isBusy && isAvailable && "availability-available hover:bg-primary/5",
-                                  !appointment && !isBusy && "cursor-pointer"
+                                  leave && "availability-leave",
+                                  !leave && !isAvailable && !hasAppointment && "availability-unavailable bg-muted/40",
+                                  !hasAppointment && !isBusy && !leave && isAvailable && "availability-available hover:bg-primary/5",
+                                  !hasAppointment && !isBusy && !leave && "cursor-pointer"
                                 )}
+                                title={leave?.name}
                                 onDragOver={handleDragOver}
                                 onDrop={(e) => handleDrop(e, slotDateTime, staffMember)}
-                                onClick={() => !appointment && !isBusy && handleSlotClick(slotDateTime, staffMember)}
+                                onClick={() => !hasAppointment && !isBusy && !leave && handleSlotClick(slotDateTime, staffMember)}
                                 data-testid={`time-slot-week-${format(day, 'yyyy-MM-dd')}-${staffMember.name.replace(' ', '-').toLowerCase()}-${format(slotTime, 'HH-mm')}`}
                               >
-                                {appointment && (
-                                  <div 
-                                    className="absolute inset-0 z-10"
-                                    style={{ height: `${appointmentHeight}px` }}
-                                  >
-                                    <AppointmentCard
-                                      appointment={appointment}
-                                      staff={staffMember}
-                                      onDragStart={handleDragStart}
-                                      onDragEnd={handleDragEnd}
-                                      onClick={onAppointmentSelect}
-                                      isDragging={draggedAppointment?.id === appointment.id}
-                                      isSelected={selectedAppointment?.id === appointment.id}
-                                    />
-                                  </div>
-                                )}
+                                {slotAppointments.map(apt => renderAppointmentCard(apt, slotDateTime, staffMember))}
                               </div>
                             );
                           })
@@ -495,6 +678,183 @@ export function CalendarGrid({
     );
   };
 
+  // Get days for timeline view
+  const timelineDates = useMemo(() => {
+    if (viewMode !== 'timeline') return [];
+    return eachDayOfInterval({ start: startOfDay(currentDate), end: addDays(startOfDay(currentDate), timelineDays - 1) });
+  }, [currentDate, viewMode, timelineDays]);
+
+  // A card in the timeline: time runs left to right, so the card is offset and sized
+  // horizontally and overlapping appointments share the row height. Buffers and the
+  // bottom-edge resize handle only make sense vertically and are left out here.
+  const renderTimelineCard = (appointment: Appointment, slotTime: Date, staffMember: Staff) => {
+    const pixelsPerMinute = TIMELINE_SLOT_WIDTH_PX / (settings?.timeInterval || 15);
+    const { lane, laneCount } = laneLayout.get(appointment.id) ?? { lane: 0, laneCount: 1 };
+    const offsetMinutes = (new Date(appointment.startTime).getTime() - slotTime.getTime()) / 60000;
+
+    return (
+      <div
+        key={appointment.id}
+        className={cn("absolute z-10", laneCount > 1 && "pb-0.5")}
+        style={{
+          left: `${offsetMinutes * pixelsPerMinute}px`,
+          width: `${appointment.duration * pixelsPerMinute}px`,
+          top: `${(lane / laneCount) * 100}%`,
+          height: `${100 / laneCount}%`,
+        }}
+        data-testid={`appointment-lane-${appointment.id}`}
+      >
+        <AppointmentCard
+          appointment={appointment}
+          staff={staffMember}
+          onDragStart={canEditAppointments ? handleDragStart : undefined}
+          onDragEnd={handleDragEnd}
+          onClick={onAppointmentSelect}
+          isDragging={isInDraggedVisit(appointment)}
+          visitSize={appointment.visitId ? visitSizes.get(appointment.visitId) : undefined}
+          isSelected={selectedAppointment?.id === appointment.id}
+        />
+      </div>
+    );
+  };
+
+  // Render Timeline view: staff as rows, the days' time slots as columns, so appointments
+  // can be dragged between stylists across the whole range
+  const renderTimelineView = () => {
+    const interval = settings?.timeInterval || 15;
+    const dayWidthPx = timeSlots.length * TIMELINE_SLOT_WIDTH_PX;
+    const firstSlot = timeSlots[0];
+    const todayIndex = timelineDates.findIndex(day => isSameDay(day, currentTime));
+    const minutesIntoDay = firstSlot
+      ? (currentTime.getHours() * 60 + currentTime.getMinutes()) - (firstSlot.getHours() * 60 + firstSlot.getMinutes())
+      : -1;
+    const showTimeMarker = todayIndex >= 0 && minutesIntoDay >= 0 && minutesIntoDay < timeSlots.length * interval;
+
+    return (
+      <div className="flex-1 overflow-auto custom-scrollbar" data-testid="timeline-view">
+        <div className="relative" style={{ width: `calc(10rem + ${timelineDates.length * dayWidthPx}px)` }}>
+          {/* Header: days, then slot times */}
+          <div className="flex sticky top-0 z-30 bg-card border-b border-border">
+            <div className="w-40 flex-shrink-0 sticky left-0 z-10 bg-muted border-r border-border" />
+            {timelineDates.map(day => (
+              <div key={day.toISOString()} className="flex-shrink-0 border-r-2 border-border" style={{ width: dayWidthPx }}>
+                <div className={cn(
+                  "px-2 py-1 text-sm font-semibold border-b border-border",
+                  isSameDay(day, new Date()) ? "text-primary bg-primary/5" : "text-foreground"
+                )}>
+                  {format(day, 'EEE d MMM')}
+                </div>
+                <div className="flex">
+                  {timeSlots.map(slotTime => (
+                    <div
+                      key={slotTime.getTime()}
+                      className="flex-shrink-0 px-1 py-0.5 text-[10px] text-muted-foreground border-r border-border/50"
+                      style={{ width: TIMELINE_SLOT_WIDTH_PX }}
+                    >
+                      {formatTimeSlot(slotTime, isMainTimeSlot(slotTime, interval))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Current Time Marker */}
+          {showTimeMarker && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-20 pointer-events-none"
+              style={{ left: `calc(10rem + ${todayIndex * dayWidthPx + (minutesIntoDay * TIMELINE_SLOT_WIDTH_PX) / interval}px)` }}
+            />
+          )}
+
+          {staff.length > 0 ? (
+            staff.map(staffMember => (
+              <div key={staffMember.id} className="flex border-b border-border" style={{ height: TIMELINE_ROW_HEIGHT_PX }}>
+                {/* Staff name, kept in view while scrolling sideways */}
+                <div
+                  className="w-40 flex-shrink-0 sticky left-0 z-20 bg-card border-r border-border px-3 flex items-center gap-2"
+                  style={{ borderLeft: `3px solid ${staffMember.color}` }}
+                >
+                  <span className="text-sm font-medium text-foreground truncate">{staffMember.name}</span>
+                </div>
+                {timelineDates.map(day => (
+                  <div key={day.toISOString()} className="flex flex-shrink-0 border-r-2 border-border" style={{ width: dayWidthPx }}>
+                    {timeSlots.map(slotTime => {
+                      const slotDateTime = new Date(day);
+                      slotDateTime.setHours(slotTime.getHours(), slotTime.getMinutes(), 0, 0);
+
+                      const slotAppointments = getAppointmentsForSlot(slotDateTime, staffMember);
+                      const hasAppointment = slotAppointments.length > 0;
+                      const isBusy = !hasAppointment && isSlotBusy(slotDateTime, staffMember);
+                      const isAvailable = isStaffAvailable(slotDateTime, staffMember);
+                      const leave = !hasAppointment ? getLeaveForSlot(slotDateTime, staffMember) : undefined;
+
+                      return (
+                        <div
+                          key={slotTime.getTime()}
+                          className={cn(
+                            "flex-shrink-0 h-full time-slot relative border-r border-border/30 transition-colors",
+                            isBusy && "availability-busy bg-red-50/30",
+                            leave && "availability-leave",
+                            !leave && !isAvailable && !hasAppointment && "availability-unavailable bg-muted/40",
+                            !hasAppointment && !isBusy && !leave && isAvailable && "availability-available hover:bg-primary/5",
+                            !hasAppointment && !isBusy && !leave && "cursor-pointer"
+                          )}
+                          style={{ width: TIMELINE_SLOT_WIDTH_PX }}
+                          title={leave?.name}
+                          onDragOver={handleDragOver}
+                          onDrop={(e) => handleDrop(e, slotDateTime, staffMember)}
+                          onClick={() => !hasAppointment && !isBusy && !leave && handleSlotClick(slotDateTime, staffMember)}
+                          data-testid={`time-slot-timeline-${format(day, 'yyyy-MM-dd')}-${staffMember.name.replace(' ', '-').toLowerCase()}-${format(slotTime, 'HH-mm')}`}
+                        >
+                          {slotAppointments.map(apt => renderTimelineCard(apt, slotDateTime, staffMember))}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            ))
+          ) : (
+            <div className="flex items-center justify-center py-12 text-muted-foreground text-sm">
+              Loading staff...
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  // One line per appointment in a month view day cell and its "+N meer" popover
+  const renderMonthAppointment = (apt: Appointment) => {
+    const categoryColor = apt.categoryColor ? getCategoryColor(apt.categoryColor) : null;
+    const isSelected = selectedAppointment?.id === apt.id;
+
+    return (
+      <div
+        key={apt.id}
+        className={cn(
+          "text-xs p-1 rounded cursor-pointer truncate transition-all",
+          !categoryColor && "bg-primary/10 hover:bg-primary/20",
+          apt.status === "cancelled" && "line-through opacity-60",
+          isSelected && "ring-2 ring-primary shadow-md"
+        )}
+        style={categoryColor ? {
+          backgroundColor: `${categoryColor}20`,
+          borderLeft: `3px solid ${categoryColor}`,
+        } : undefined}
+        onClick={(e) => {
+          e.stopPropagation();
+          onAppointmentSelect(apt);
+        }}
+        data-appointment-click="true"
+        data-testid={`month-appointment-${apt.id}`}
+      >
+        {format(new Date(apt.startTime), 'HH:mm')} {apt.customerName}
+      </div>
+    );
+  };
+
   // Render Month view calendar
   const renderMonthView = () => {
     const firstDay = monthDays[0];
@@ -530,23 +890,23 @@ export function CalendarGrid({
               
               // Show all appointments (no filter or all staff selected)
               return true;
-            });
+            }).sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
             const isToday = isSameDay(day, new Date());
-            
-            // For month view, use first available staff for booking
-            const availableStaff = staff.find(s => s.id) || staff[0];
-            
-            // Default time for month view bookings (9:00 AM)
-            const defaultTime = new Date(day);
-            defaultTime.setHours(9, 0, 0, 0);
+
+            // Booked time against the working time of the staff on screen
+            const bookedMinutes = dayAppointments
+              .filter(apt => apt.status !== "cancelled")
+              .reduce((total, apt) => total + apt.duration, 0);
+            const workingMinutes = staff.reduce((total, member) => total + getWorkingMinutes(day, member), 0);
+            const occupancy = workingMinutes > 0 ? Math.min(1, bookedMinutes / workingMinutes) : 0;
             
             const handleDayClick = (e: React.MouseEvent) => {
-              // Only open booking dialog if clicking on empty space (not on an appointment)
+              // Only open the picker if clicking on empty space (not on an appointment)
               if ((e.target as HTMLElement).closest('[data-appointment-click]')) {
                 return;
               }
-              if (availableStaff) {
-                handleSlotClick(defaultTime, availableStaff);
+              if (canEditAppointments && staff.length > 0) {
+                setDayPickerDate(day);
               }
             };
             
@@ -566,55 +926,45 @@ export function CalendarGrid({
                 )}>
                   {format(day, 'd')}
                 </div>
+                {workingMinutes > 0 && (
+                  <div
+                    className="h-1 rounded-full bg-muted overflow-hidden mb-1"
+                    title={`${Math.round(occupancy * 100)}% bezet`}
+                    data-testid={`occupancy-${format(day, 'yyyy-MM-dd')}`}
+                  >
+                    <div
+                      className={cn(
+                        "h-full rounded-full",
+                        occupancy >= 0.9 ? "bg-red-500" : occupancy >= 0.6 ? "bg-amber-500" : "bg-green-500"
+                      )}
+                      style={{ width: `${occupancy * 100}%` }}
+                    />
+                  </div>
+                )}
                 <div className="flex-1 overflow-y-auto space-y-1">
-                  {dayAppointments.slice(0, 3).map(apt => {
-                    // Convert Odoo color index to actual color
-                    const getCategoryColor = (colorIndex: string | null): string | null => {
-                      if (!colorIndex) return null;
-                      
-                      const odooColors = [
-                        '#F06050', '#F4A460', '#F7CD1F', '#6CC1ED', 
-                        '#814968', '#EB7E7F', '#2C8397', '#475577', 
-                        '#D6145F', '#30C381', '#9365B8', '#808080'
-                      ];
-                      
-                      const index = parseInt(colorIndex);
-                      return !isNaN(index) && index >= 0 && index < odooColors.length 
-                        ? odooColors[index] 
-                        : colorIndex;
-                    };
-
-                    const categoryColor = apt.categoryColor ? getCategoryColor(apt.categoryColor) : null;
-
-                    const isSelected = selectedAppointment?.id === apt.id;
-                    
-                    return (
-                      <div
-                        key={apt.id}
-                        className={cn(
-                          "text-xs p-1 rounded cursor-pointer truncate transition-all",
-                          !categoryColor && "bg-primary/10 hover:bg-primary/20",
-                          isSelected && "ring-2 ring-primary shadow-md"
-                        )}
-                        style={categoryColor ? {
-                          backgroundColor: `${categoryColor}20`,
-                          borderLeft: `3px solid ${categoryColor}`,
-                        } : undefined}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onAppointmentSelect(apt);
-                        }}
-                        data-appointment-click="true"
-                        data-testid={`month-appointment-${apt.id}`}
-                      >
-                        {format(new Date(apt.startTime), 'HH:mm')} {apt.customerName}
-                      </div>
-                    );
-                  })}
+                  {dayAppointments.slice(0, 3).map(renderMonthAppointment)}
                   {dayAppointments.length > 3 && (
-                    <div className="text-xs text-muted-foreground">
-                      +{dayAppointments.length - 3} more
-                    </div>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <button
+                          type="button"
+                          className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+                          data-appointment-click="true"
+                          data-testid={`button-more-${format(day, 'yyyy-MM-dd')}`}
+                        >
+                          +{dayAppointments.length - 3} meer
+                        </button>
+                      </PopoverTrigger>
+                      {/* Clicks inside still bubble to the day cell through the portal */}
+                      <PopoverContent className="w-64 p-2" align="start" onClick={(e) => e.stopPropagation()}>
+                        <div className="text-sm font-semibold text-foreground mb-2">
+                          {day.toLocaleDateString("nl-NL", { weekday: "long", day: "numeric", month: "long" })}
+                        </div>
+                        <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-1">
+                          {dayAppointments.map(renderMonthAppointment)}
+                        </div>
+                      </PopoverContent>
+                    </Popover>
                   )}
                 </div>
               </div>
@@ -627,7 +977,11 @@ export function CalendarGrid({
 
   return (
     <>
-      {viewMode === 'month' ? renderMonthView() : renderTimeSlotView()}
+      {viewMode === 'month'
+        ? renderMonthView()
+        : viewMode === 'timeline'
+          ? renderTimelineView()
+          : renderTimeSlotView()}
 
       {/* Book Appointment Dialog */}
       <BookAppointmentDialog
@@ -637,6 +991,26 @@ export function CalendarGrid({
         selectedTime={selectedSlot?.time}
         selectedStaffId={selectedSlot?.staffId}
         selectedStaffName={selectedSlot?.staffName}
+        selectedAppointmentTypeId={selectedSlot?.appointmentTypeId}
+      />
+
+      {/* Free times per staff member for a month view day */}
+      <DayBookingPicker
+        open={dayPickerDate !== null}
+        onOpenChange={(open) => !open && setDayPickerDate(null)}
+        date={dayPickerDate}
+        staff={staff}
+        onPick={(start, staffMember, appointmentTypeId) => {
+          setDayPickerDate(null);
+          setSelectedSlot({
+            date: start,
+            time: format(start, 'HH:mm'),
+            staffId: staffMember.id,
+            staffName: staffMember.name,
+            appointmentTypeId,
+          });
+          setBookingDialogOpen(true);
+        }}
       />
     </>
   );
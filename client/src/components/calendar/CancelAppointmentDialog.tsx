@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import {
   AlertDialog,
@@ -9,22 +10,38 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Appointment } from "@shared/schema";
+import { CANCELLATION_REASON_LABELS } from "@/lib/cancellation";
+import { SeriesScopePicker } from "./SeriesScopePicker";
+import { cancellationReasons, type Appointment, type CancellationReason, type SeriesScope } from "@shared/schema";
 
 interface CancelAppointmentDialogProps {
   appointment: Appointment | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  onCancelled?: (appointment: Appointment) => void;
 }
 
 export function CancelAppointmentDialog({
   appointment,
   open,
   onOpenChange,
+  onCancelled,
 }: CancelAppointmentDialogProps) {
   const { toast } = useToast();
+  const [reason, setReason] = useState<CancellationReason | "">("");
+  const [scope, setScope] = useState<SeriesScope>("occurrence");
+
+  // A reason is picked deliberately for every cancellation
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setScope("occurrence");
+    }
+  }, [open]);
 
   const cancelMutation = useMutation({
     mutationFn: async () => {
@@ -32,14 +49,21 @@ export function CancelAppointmentDialog({
         throw new Error("No appointment to cancel");
       }
 
-      return apiRequest("DELETE", `/api/appointments/${appointment.id}`);
+      const response = await apiRequest("POST", `/api/appointments/${appointment.id}/cancel`, { reason, scope });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: Appointment & { odooQueued?: boolean; affectedCount?: number }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/outbox"] });
       toast({
-        title: "Afspraak geannuleerd",
-        description: "De afspraak is succesvol geannuleerd en verwijderd uit Odoo.",
+        title: result.affectedCount && result.affectedCount > 1
+          ? `${result.affectedCount} afspraken geannuleerd`
+          : "Afspraak geannuleerd",
+        description: result.odooQueued
+          ? "De afspraak is geannuleerd. Odoo is niet bereikbaar; het archiveren wordt later opnieuw geprobeerd."
+          : "De afspraak is geannuleerd en gearchiveerd in Odoo.",
       });
+      onCancelled?.(result);
       onOpenChange(false);
     },
     onError: (error) => {
@@ -63,8 +87,9 @@ export function CancelAppointmentDialog({
         <AlertDialogHeader>
           <AlertDialogTitle>Afspraak Annuleren?</AlertDialogTitle>
           <AlertDialogDescription>
-            Weet u zeker dat u deze afspraak wilt annuleren? Dit zal de afspraak permanent verwijderen
-            uit zowel de kalender als Odoo.
+            De afspraak blijft zichtbaar als geannuleerd en wordt gearchiveerd in Odoo.
+            U kunt de annulering later ongedaan maken.
+            {appointment.visitId && " De andere diensten van dit bezoek worden ook geannuleerd."}
           </AlertDialogDescription>
         </AlertDialogHeader>
         
@@ -89,13 +114,35 @@ export function CancelAppointmentDialog({
           </p>
         </div>
 
+        <div className="space-y-2">
+          <Label>Reden van annulering</Label>
+          <RadioGroup
+            value={reason}
+            onValueChange={(value) => setReason(value as CancellationReason)}
+            data-testid="radio-cancellation-reason"
+          >
+            {cancellationReasons.map((option) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`cancel-reason-${option}`} data-testid={`radio-reason-${option}`} />
+                <Label htmlFor={`cancel-reason-${option}`} className="font-normal">
+                  {CANCELLATION_REASON_LABELS[option]}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        {appointment.odooRecurrenceId && (
+          <SeriesScopePicker value={scope} onChange={setScope} />
+        )}
+
         <AlertDialogFooter>
           <AlertDialogCancel data-testid="button-cancel-no">
             Nee, Behoud Afspraak
           </AlertDialogCancel>
           <AlertDialogAction
             onClick={handleCancel}
-            disabled={cancelMutation.isPending}
+            disabled={!reason || cancelMutation.isPending}
             className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             data-testid="button-cancel-yes"
           >
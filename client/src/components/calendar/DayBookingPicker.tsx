@@ -0,0 +1,139 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { format, startOfDay, endOfDay } from "date-fns";
+import type { AvailableSlot, Staff } from "@shared/schema";
+
+interface AppointmentType {
+  id: number;
+  name: string;
+  appointment_duration: number;
+}
+
+interface DayBookingPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  date: Date | null;
+  // Staff shown in the calendar; only their free times are offered
+  staff: Staff[];
+  onPick: (start: Date, staffMember: Staff, appointmentTypeId: number) => void;
+}
+
+// Free times per staff member on one day for a chosen service, opened from a month view
+// day so booking starts from a time that is actually available
+export function DayBookingPicker({ open, onOpenChange, date, staff, onPick }: DayBookingPickerProps) {
+  const [appointmentTypeId, setAppointmentTypeId] = useState<number | null>(null);
+
+  const { data: appointmentTypes = [] } = useQuery<AppointmentType[]>({
+    queryKey: ["/api/appointment-types"],
+    enabled: open,
+  });
+
+  // Default to the first service so free times show straight away
+  useEffect(() => {
+    if (appointmentTypeId === null && appointmentTypes.length > 0) {
+      setAppointmentTypeId(appointmentTypes[0].id);
+    }
+  }, [appointmentTypes, appointmentTypeId]);
+
+  // Every free start on the day for each staff member; past times are never offered
+  const { data: availability, isLoading } = useQuery<{ durationMinutes: number; slots: AvailableSlot[] }>({
+    queryKey: ["/api/availability", "day", appointmentTypeId, date?.toDateString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        appointmentTypeIds: String(appointmentTypeId),
+        start: startOfDay(date!).toISOString(),
+        end: endOfDay(date!).toISOString(),
+        // Per staff member, so one stylist's morning doesn't crowd out the afternoon
+        limit: "200",
+        perStaff: "true",
+      });
+      const response = await fetch(`/api/availability?${params}`);
+      if (!response.ok) throw new Error("Failed to fetch availability");
+      return response.json();
+    },
+    enabled: open && !!date && appointmentTypeId !== null,
+  });
+
+  const slotsByStaff = useMemo(() => {
+    const byStaff = new Map<string, AvailableSlot[]>();
+    for (const slot of availability?.slots ?? []) {
+      byStaff.set(slot.staffId, [...(byStaff.get(slot.staffId) ?? []), slot]);
+    }
+    return byStaff;
+  }, [availability]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]" data-testid="dialog-day-booking-picker">
+        <DialogHeader>
+          <DialogTitle>Afspraak plannen</DialogTitle>
+          <DialogDescription>
+            {date && date.toLocaleDateString("nl-NL", { weekday: "long", day: "numeric", month: "long", year: "numeric" })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="day-picker-service">Dienst</Label>
+          <Select
+            value={appointmentTypeId !== null ? String(appointmentTypeId) : undefined}
+            onValueChange={(value) => setAppointmentTypeId(Number(value))}
+          >
+            <SelectTrigger id="day-picker-service" data-testid="select-day-picker-service">
+              <SelectValue placeholder="Selecteer dienst" />
+            </SelectTrigger>
+            <SelectContent>
+              {appointmentTypes.map((type) => (
+                <SelectItem key={type.id} value={String(type.id)}>
+                  {type.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto custom-scrollbar space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            staff.map((staffMember) => {
+              const slots = slotsByStaff.get(staffMember.id) ?? [];
+              return (
+                <div key={staffMember.id} data-testid={`day-picker-staff-${staffMember.id}`}>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: staffMember.color }} />
+                    <span className="text-sm font-medium text-foreground">{staffMember.name}</span>
+                  </div>
+                  {slots.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Geen vrije tijden</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {slots.map((slot) => (
+                        <Button
+                          key={slot.start}
+                          variant="outline"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => onPick(new Date(slot.start), staffMember, appointmentTypeId!)}
+                          data-testid={`button-day-picker-slot-${staffMember.id}-${format(new Date(slot.start), "HH-mm")}`}
+                        >
+                          {format(new Date(slot.start), "HH:mm")}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
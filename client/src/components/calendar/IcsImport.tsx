@@ -0,0 +1,281 @@
+import { useState, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, Loader2, AlertTriangle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import type { IcsImportPreview, IcsImportResult, IcsImportRow, Staff } from "@shared/schema";
+
+interface AppointmentType {
+  id: number;
+  name: string;
+}
+
+const NONE = "none";
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString("nl-NL", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: false,
+  });
+
+// Rows without conflicts are picked by default; conflicting ones can only be picked once
+// conflicts are allowed for the import
+const isReady = (row: IcsImportRow) => !row.error && row.reasons.length === 0;
+
+// Upload of an .ics export from another booking tool. The preview lists every appointment
+// found, matched to a staff member and service, with its conflicts; the picked ones are
+// then created in Odoo.
+export function IcsImport() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<{ name: string; ics: string } | null>(null);
+  const [defaultStaffId, setDefaultStaffId] = useState<string>(NONE);
+  const [defaultTypeId, setDefaultTypeId] = useState<string>(NONE);
+  const [preview, setPreview] = useState<IcsImportPreview | null>(null);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [allowConflicts, setAllowConflicts] = useState(false);
+
+  const { data: staff = [] } = useQuery<Staff[]>({
+    queryKey: ["/api/staff"],
+  });
+
+  const { data: appointmentTypes = [] } = useQuery<AppointmentType[]>({
+    queryKey: ["/api/appointment-types"],
+  });
+
+  const importRequest = () => ({
+    ics: file!.ics,
+    defaultStaffId: defaultStaffId !== NONE ? defaultStaffId : undefined,
+    defaultAppointmentTypeId: defaultTypeId !== NONE ? Number(defaultTypeId) : undefined,
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/import/ics/preview", importRequest());
+      return response.json() as Promise<IcsImportPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setSelectedKeys(new Set(result.rows.filter(isReady).map(row => row.key)));
+      setAllowConflicts(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Inlezen Mislukt",
+        description: error.message || "Kan het bestand niet lezen",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/import/ics", {
+        ...importRequest(),
+        keys: Array.from(selectedKeys),
+        allowConflicts,
+      });
+      return response.json() as Promise<IcsImportResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      setPreview(null);
+      setFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      toast({
+        title: "Import Voltooid",
+        description: [
+          `${result.created} afspraken aangemaakt`,
+          result.conflicts.length > 0 &&
+            `${result.conflicts.length} overgeslagen wegens conflicten: ${result.conflicts.map(c => c.summary).join(", ")}`,
+          result.failed.length > 0 &&
+            `${result.failed.length} mislukt: ${result.failed.map(f => f.summary).join(", ")}`,
+        ].filter(Boolean).join(", "),
+        variant: result.failed.length > 0 || result.conflicts.length > 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Mislukt",
+        description: error.message || "Kan de afspraken niet importeren",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (selected: File | undefined) => {
+    setPreview(null);
+    setFile(selected ? { name: selected.name, ics: await selected.text() } : null);
+  };
+
+  const toggleRow = (key: string, checked: boolean) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  // Without conflicts allowed, conflicting rows can't stay picked
+  const toggleAllowConflicts = (checked: boolean) => {
+    setAllowConflicts(checked);
+    if (!checked && preview) {
+      const conflicting = new Set(preview.rows.filter(row => row.reasons.length > 0).map(row => row.key));
+      setSelectedKeys(prev => new Set(Array.from(prev).filter(key => !conflicting.has(key))));
+    }
+  };
+
+  const staffName = (staffId: string | null) => staff.find(member => member.id === staffId)?.name;
+
+  return (
+    <div className="mb-6">
+      <Label className="block text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+        <Upload className="text-primary" size={16} />
+        Afspraken Importeren
+      </Label>
+      <div className="space-y-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-xs text-muted-foreground file:mr-2 file:rounded-md file:border-0 file:bg-secondary file:px-2 file:py-1 file:text-xs file:text-secondary-foreground"
+          data-testid="input-ics-file"
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-[10px] text-muted-foreground block mb-0.5">Anders medewerker</Label>
+            <Select value={defaultStaffId} onValueChange={setDefaultStaffId}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-import-default-staff">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Geen</SelectItem>
+                {staff.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {member.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-[10px] text-muted-foreground block mb-0.5">Anders dienst</Label>
+            <Select value={defaultTypeId} onValueChange={setDefaultTypeId}>
+              <SelectTrigger className="h-8 text-xs" data-testid="select-import-default-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Geen</SelectItem>
+                {appointmentTypes.map((type) => (
+                  <SelectItem key={type.id} value={String(type.id)}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          size="sm"
+          className="w-full h-8 text-xs"
+          onClick={() => previewMutation.mutate()}
+          disabled={!file || previewMutation.isPending}
+          data-testid="button-preview-import"
+        >
+          {previewMutation.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          Voorbeeld bekijken
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        Medewerkers en diensten worden herkend aan de organisator, deelnemers en titel van elke afspraak.
+      </p>
+
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="sm:max-w-[760px]" data-testid="dialog-import-preview">
+          <DialogHeader>
+            <DialogTitle>Import van {file?.name}</DialogTitle>
+            <DialogDescription>
+              {preview && [
+                `${preview.rows.length} afspraken gevonden`,
+                preview.outsideWindow > 0 && `${preview.outsideWindow} in het verleden of buiten het boekingsvenster`,
+                preview.skipped.length > 0 && `${preview.skipped.length} overgeslagen`,
+              ].filter(Boolean).join(", ")}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-96 overflow-y-auto custom-scrollbar rounded-md border border-border divide-y divide-border">
+            {preview?.rows.map((row) => (
+              <label
+                key={row.key}
+                className={cn("flex items-start gap-3 px-3 py-2 text-sm", row.error && "opacity-60")}
+                data-testid={`import-row-${row.key}`}
+              >
+                <Checkbox
+                  checked={selectedKeys.has(row.key)}
+                  onCheckedChange={(checked) => toggleRow(row.key, checked === true)}
+                  disabled={!!row.error || (row.reasons.length > 0 && !allowConflicts)}
+                  className="mt-0.5"
+                />
+                <span className="w-36 flex-shrink-0 tabular-nums">{formatDateTime(row.start)}</span>
+                <span className="flex-1 min-w-0">
+                  <span className="block font-medium truncate">{row.customerName}</span>
+                  <span className="block text-xs text-muted-foreground truncate">
+                    {[row.service, staffName(row.staffId)].filter(Boolean).join(" · ") || row.summary}
+                  </span>
+                  {row.error && <span className="block text-xs text-destructive">{row.error}</span>}
+                  {row.reasons.map((reason, index) => (
+                    <span key={index} className="flex items-center gap-1 text-xs text-amber-700">
+                      <AlertTriangle size={10} />
+                      {reason.message}
+                    </span>
+                  ))}
+                </span>
+              </label>
+            ))}
+            {preview?.skipped.map((event, index) => (
+              <div key={`skipped-${index}`} className="px-3 py-2 text-xs text-muted-foreground">
+                Overgeslagen: {event.summary || event.uid} ({event.reason})
+              </div>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm" data-testid="label-allow-conflicts">
+            <Checkbox
+              checked={allowConflicts}
+              onCheckedChange={(checked) => toggleAllowConflicts(checked === true)}
+              data-testid="checkbox-allow-conflicts"
+            />
+            Ook afspraken met conflicten importeren
+          </label>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreview(null)}>
+              Annuleren
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={selectedKeys.size === 0 || importMutation.isPending}
+              data-testid="button-run-import"
+            >
+              {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {selectedKeys.size} afspraken importeren
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
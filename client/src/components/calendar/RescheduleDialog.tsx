@@ -19,7 +19,9 @@ import {
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Appointment, Staff } from "@shared/schema";
+import { describeAvailabilityReason, getAvailabilityReasons } from "@/lib/availability";
+import { SeriesScopePicker } from "./SeriesScopePicker";
+import type { Appointment, SeriesScope, Staff } from "@shared/schema";
 
 interface RescheduleDialogProps {
   appointment: Appointment | null;
@@ -44,6 +46,7 @@ export function RescheduleDialog({
   const [selectedStaffId, setSelectedStaffId] = useState<string>(
     appointment?.staffId || ""
   );
+  const [scope, setScope] = useState<SeriesScope>("occurrence");
 
   const { data: staff = [] } = useQuery<Staff[]>({
     queryKey: ["/api/staff"],
@@ -62,24 +65,32 @@ export function RescheduleDialog({
       const newEndTime = new Date(newStartTime);
       newEndTime.setMinutes(newEndTime.getMinutes() + appointment.duration);
 
-      return apiRequest("PUT", `/api/appointments/${appointment.id}/reschedule`, {
+      const response = await apiRequest("PUT", `/api/appointments/${appointment.id}/reschedule`, {
         startTime: newStartTime.toISOString(),
         endTime: newEndTime.toISOString(),
         staffId: selectedStaffId,
+        scope,
       });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result: { affectedCount?: number }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/outbox"] });
       toast({
         title: "Afspraak verplaatst",
-        description: "De afspraak is succesvol verplaatst.",
+        description: result.affectedCount && result.affectedCount > 1
+          ? `${result.affectedCount} afspraken uit de reeks zijn verplaatst.`
+          : "De afspraak is succesvol verplaatst.",
       });
       onOpenChange(false);
     },
     onError: (error) => {
+      const reasons = getAvailabilityReasons(error);
       toast({
         title: "Verplaatsen mislukt",
-        description: error instanceof Error ? error.message : "Onbekende fout",
+        description: reasons.length > 0
+          ? reasons.map(describeAvailabilityReason).join(". ")
+          : error instanceof Error ? error.message : "Onbekende fout",
         variant: "destructive",
       });
     },
@@ -91,6 +102,7 @@ export function RescheduleDialog({
       setSelectedDate(new Date(appointment.startTime));
       setSelectedTime(new Date(appointment.startTime).toTimeString().slice(0, 5));
       setSelectedStaffId(appointment.staffId || "");
+      setScope("occurrence");
     }
   }, [appointment, open]);
 
@@ -125,6 +137,11 @@ export function RescheduleDialog({
             <p className="text-sm text-muted-foreground">
               {appointment.customerName} - {appointment.service}
             </p>
+            {appointment.visitId && (
+              <p className="text-xs text-muted-foreground" data-testid="text-visit-moves-along">
+                De andere diensten van dit bezoek worden mee verplaatst.
+              </p>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -169,6 +186,10 @@ export function RescheduleDialog({
               </SelectContent>
             </Select>
           </div>
+
+          {appointment.odooRecurrenceId && (
+            <SeriesScopePicker value={scope} onChange={setScope} />
+          )}
         </div>
 
         <div className="flex justify-end gap-2">
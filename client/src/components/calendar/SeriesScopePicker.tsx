@@ -0,0 +1,32 @@
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { SERIES_SCOPE_LABELS } from "@/lib/recurrence";
+import { seriesScopes, type SeriesScope } from "@shared/schema";
+
+interface SeriesScopePickerProps {
+  value: SeriesScope;
+  onChange: (scope: SeriesScope) => void;
+}
+
+// Which occurrences of a recurring series a reschedule or cancellation applies to
+export function SeriesScopePicker({ value, onChange }: SeriesScopePickerProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Herhalende afspraak</Label>
+      <RadioGroup
+        value={value}
+        onValueChange={(scope) => onChange(scope as SeriesScope)}
+        data-testid="radio-series-scope"
+      >
+        {seriesScopes.map((scope) => (
+          <div key={scope} className="flex items-center gap-2">
+            <RadioGroupItem value={scope} id={`series-scope-${scope}`} data-testid={`radio-scope-${scope}`} />
+            <Label htmlFor={`series-scope-${scope}`} className="font-normal">
+              {SERIES_SCOPE_LABELS[scope]}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
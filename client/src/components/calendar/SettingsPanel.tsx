@@ -6,6 +6,9 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Clock, Calendar, Users, Settings, FolderSync, X, CalendarDays, CalendarX, Palette } from "lucide-react";
 import { useOdooSync } from "@/hooks/useOdooSync";
+import { AppointmentTypeTimings } from "./AppointmentTypeTimings";
+import { CalendarFeeds } from "./CalendarFeeds";
+import { IcsImport } from "./IcsImport";
 import { apiRequest } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
 import type { CalendarSettings, Staff } from "@shared/schema";
@@ -59,7 +62,7 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
       // Invalidate categories to refresh legend
       queryClient.invalidateQueries({ queryKey: ["/api/appointment-categories"] });
       
-      // Trigger sync to update appointments with new colors
+      // Trigger a full sync: category colour changes don't touch the events' write_date
       const today = new Date();
       const pastDate = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
       const futureDate = new Date(today.getTime() + 90 * 24 * 60 * 60 * 1000);
@@ -67,6 +70,7 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
       syncWithOdoo({
         start: pastDate.toISOString(),
         end: futureDate.toISOString(),
+        full: true,
       });
     },
     onError: (error: Error) => {
@@ -238,6 +242,15 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
           </div>
         </div>
 
+        {/* Buffer and processing times per service */}
+        <AppointmentTypeTimings />
+
+        {/* Subscription links for calendar apps */}
+        <CalendarFeeds />
+
+        {/* Appointments from another booking tool's .ics export */}
+        <IcsImport />
+
         {/* Staff Filter */}
         <div className="mb-6">
           <Label className="block text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
@@ -338,7 +351,7 @@ export function SettingsPanel({ isOpen, onClose }: SettingsPanelProps) {
             
             {syncResult && (
               <p className="text-xs text-green-600 mt-1">
-                Gesynchroniseerd {syncResult.synced?.created || 0} nieuw, {syncResult.synced?.updated || 0} bijgewerkt
+                Gesynchroniseerd {syncResult.synced?.created || 0} nieuw, {syncResult.synced?.updated || 0} bijgewerkt, {(syncResult.synced?.deleted || 0) + (syncResult.synced?.cancelled || 0)} verwijderd
               </p>
             )}
             
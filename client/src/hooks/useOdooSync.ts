@@ -1,12 +1,21 @@
+import { useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import type { SyncRun, OdooOutboxItem } from "@shared/schema";
+
+interface SyncHistory {
+  isRunning: boolean;
+  runs: SyncRun[];
+}
 
 export function useOdooSync() {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   const syncMutation = useMutation({
-    mutationFn: async ({ start, end }: { start?: string; end?: string } = {}) => {
-      const response = await apiRequest("POST", "/api/sync/odoo", { start, end });
+    mutationFn: async ({ start, end, full }: { start?: string; end?: string; full?: boolean } = {}) => {
+      const response = await apiRequest("POST", "/api/sync/odoo", { start, end, full });
       return response.json();
     },
     onSuccess: () => {
@@ -15,8 +24,45 @@ export function useOdooSync() {
       queryClient.invalidateQueries({ queryKey: ["/api/staff"] });
       queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
     },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sync/runs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/outbox"] });
+    },
+  });
+
+  // The server syncs on its own schedule; poll the run history to pick up its results
+  const { data: syncHistory } = useQuery<SyncHistory>({
+    queryKey: ["/api/sync/runs"],
+    refetchInterval: 60 * 1000,
+  });
+
+  const latestRun = syncHistory?.runs[0];
+
+  // Local edits that Odoo hasn't accepted yet and are waiting for a retry. Only those who
+  // can edit appointments see the outbox.
+  const { data: outbox = [] } = useQuery<OdooOutboxItem[]>({
+    queryKey: ["/api/outbox"],
+    refetchInterval: 60 * 1000,
+    enabled: user?.role === "admin" || user?.role === "receptionist",
+  });
+
+  const retryOutboxMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/outbox/retry", {});
+      return response.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/outbox"] });
+    },
   });
 
+  useEffect(() => {
+    if (latestRun?.status === "success") {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    }
+  }, [latestRun?.id, latestRun?.status, queryClient]);
+
   const testConnection = useQuery({
     queryKey: ["/api/test-odoo"],
     enabled: false, // Only run when manually triggered
@@ -24,9 +70,13 @@ export function useOdooSync() {
 
   return {
     syncWithOdoo: syncMutation.mutate,
-    isSyncing: syncMutation.isPending,
+    isSyncing: syncMutation.isPending || !!syncHistory?.isRunning,
     syncError: syncMutation.error,
     syncResult: syncMutation.data,
+    syncRuns: syncHistory?.runs ?? [],
+    outbox,
+    retryOutbox: retryOutboxMutation.mutate,
+    isRetryingOutbox: retryOutboxMutation.isPending,
     testConnection: testConnection.refetch,
     connectionStatus: testConnection.data,
   };
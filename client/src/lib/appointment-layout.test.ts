@@ -0,0 +1,136 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { layoutLanes, type LaneLayout } from "./appointment-layout";
+
+// Items on one day from "HH:MM" times
+const at = (time: string) => `2026-03-02T${time}:00.000Z`;
+const item = (id: string, start: string, end: string) => ({ id, startTime: at(start), endTime: at(end) });
+
+const lanesOf = (layout: Map<string, LaneLayout>) => Object.fromEntries(layout);
+
+describe("layoutLanes", () => {
+  it("gives a lone appointment the whole column", () => {
+    assert.deepEqual(lanesOf(layoutLanes([item("a", "09:00", "10:00")])), {
+      a: { lane: 0, laneCount: 1 },
+    });
+  });
+
+  it("puts overlapping appointments side by side", () => {
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("a", "09:00", "10:00"),
+      item("b", "09:30", "10:30"),
+    ])), {
+      a: { lane: 0, laneCount: 2 },
+      b: { lane: 1, laneCount: 2 },
+    });
+  });
+
+  it("shares one lane count across a chain of overlaps", () => {
+    // a overlaps b and b overlaps c, but a and c don't touch: c reuses a's lane
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("a", "09:00", "10:00"),
+      item("b", "09:30", "11:00"),
+      item("c", "10:30", "11:30"),
+    ])), {
+      a: { lane: 0, laneCount: 2 },
+      b: { lane: 1, laneCount: 2 },
+      c: { lane: 0, laneCount: 2 },
+    });
+  });
+
+  it("puts the longer of two equal starts on the left, then orders by id", () => {
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("short", "09:00", "09:30"),
+      item("long", "09:00", "10:30"),
+    ])), {
+      long: { lane: 0, laneCount: 2 },
+      short: { lane: 1, laneCount: 2 },
+    });
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("b", "09:00", "10:00"),
+      item("a", "09:00", "10:00"),
+    ])), {
+      a: { lane: 0, laneCount: 2 },
+      b: { lane: 1, laneCount: 2 },
+    });
+  });
+
+  it("doesn't treat touching appointments as overlapping", () => {
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("a", "09:00", "10:00"),
+      item("b", "10:00", "11:00"),
+    ])), {
+      a: { lane: 0, laneCount: 1 },
+      b: { lane: 0, laneCount: 1 },
+    });
+  });
+
+  it("starts a new cluster after a gap", () => {
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("a", "09:00", "10:00"),
+      item("b", "09:15", "10:00"),
+      item("c", "09:30", "10:00"),
+      item("d", "11:00", "12:00"),
+    ])), {
+      a: { lane: 0, laneCount: 3 },
+      b: { lane: 1, laneCount: 3 },
+      c: { lane: 2, laneCount: 3 },
+      d: { lane: 0, laneCount: 1 },
+    });
+  });
+
+  it("reuses the leftmost free lane within a cluster", () => {
+    // b ends first, so d takes its lane rather than opening a fourth one
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("a", "09:00", "11:00"),
+      item("b", "09:00", "09:30"),
+      item("c", "09:15", "11:00"),
+      item("d", "09:45", "10:15"),
+    ])), {
+      a: { lane: 0, laneCount: 3 },
+      b: { lane: 1, laneCount: 3 },
+      c: { lane: 2, laneCount: 3 },
+      d: { lane: 1, laneCount: 3 },
+    });
+  });
+
+  it("gives zero-length appointments a lane of their own", () => {
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("a", "09:00", "09:00"),
+      item("b", "09:00", "09:00"),
+    ])), {
+      a: { lane: 0, laneCount: 2 },
+      b: { lane: 1, laneCount: 2 },
+    });
+  });
+
+  it("treats an end before the start or an invalid end as zero length", () => {
+    assert.deepEqual(lanesOf(layoutLanes([
+      item("a", "09:00", "08:00"),
+      { id: "b", startTime: at("09:00"), endTime: "not a date" },
+      item("c", "09:01", "10:00"),
+    ])), {
+      a: { lane: 0, laneCount: 2 },
+      b: { lane: 1, laneCount: 2 },
+      c: { lane: 0, laneCount: 1 },
+    });
+  });
+
+  it("leaves out appointments with an invalid start", () => {
+    const layout = layoutLanes([
+      { id: "bad", startTime: "not a date", endTime: at("10:00") },
+      item("a", "09:00", "10:00"),
+    ]);
+    assert.deepEqual(lanesOf(layout), { a: { lane: 0, laneCount: 1 } });
+  });
+
+  it("accepts Date objects as well as strings", () => {
+    assert.deepEqual(lanesOf(layoutLanes([
+      { id: "a", startTime: new Date(at("09:00")), endTime: new Date(at("10:00")) },
+      item("b", "09:30", "10:30"),
+    ])), {
+      a: { lane: 0, laneCount: 2 },
+      b: { lane: 1, laneCount: 2 },
+    });
+  });
+});
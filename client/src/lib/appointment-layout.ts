@@ -0,0 +1,63 @@
+// Position of an appointment among the ones it overlaps in the same column
+export interface LaneLayout {
+  // 0-based lane, from left to right
+  lane: number;
+  // Lanes the column is split into while this appointment's overlap cluster lasts
+  laneCount: number;
+}
+
+interface TimedItem {
+  id: string;
+  startTime: Date | string;
+  endTime: Date | string;
+}
+
+// Appointments without a length still get a lane of their own instead of hiding behind another
+const MIN_EXTENT_MS = 60 * 1000;
+
+// Packs overlapping appointments of one column (one staff member on one day) into
+// side-by-side lanes. Appointments that overlap directly or through a chain form a
+// cluster that shares one lane count; each takes the leftmost lane that's free at its
+// start, so lanes are reused once an earlier appointment ends. Touching appointments
+// (one ends when the next starts) don't overlap. Items with an invalid start are left out.
+export function layoutLanes(items: readonly TimedItem[]): Map<string, LaneLayout> {
+  const spans = items
+    .map(item => {
+      const start = new Date(item.startTime).getTime();
+      const end = Math.max(new Date(item.endTime).getTime() || start, start + MIN_EXTENT_MS);
+      return { id: item.id, start, end };
+    })
+    .filter(span => !Number.isNaN(span.start))
+    // Earlier first; on equal starts the longer one goes left so it stays readable
+    .sort((a, b) => a.start - b.start || b.end - a.end || a.id.localeCompare(b.id));
+
+  const layout = new Map<string, LaneLayout>();
+  let cluster: { id: string; lane: number }[] = [];
+  let laneEnds: number[] = [];
+  let clusterEnd = -Infinity;
+
+  const closeCluster = () => {
+    for (const { id, lane } of cluster) {
+      layout.set(id, { lane, laneCount: laneEnds.length });
+    }
+    cluster = [];
+    laneEnds = [];
+  };
+
+  for (const span of spans) {
+    if (span.start >= clusterEnd) closeCluster();
+
+    let lane = laneEnds.findIndex(end => end <= span.start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(span.end);
+    } else {
+      laneEnds[lane] = span.end;
+    }
+    cluster.push({ id: span.id, lane });
+    clusterEnd = Math.max(clusterEnd, span.end);
+  }
+  closeCluster();
+
+  return layout;
+}
@@ -0,0 +1,34 @@
+import type { AppointmentStatus, AppointmentTransition } from "@shared/schema";
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  confirmed: "Bevestigd",
+  checked_in: "Ingecheckt",
+  in_progress: "Bezig",
+  completed: "Afgerond",
+  no_show: "No-show",
+  cancelled: "Geannuleerd",
+};
+
+export const TRANSITION_LABELS: Record<AppointmentTransition, string> = {
+  "check-in": "Inchecken",
+  "start": "Starten",
+  "complete": "Afronden",
+  "no-show": "No-show",
+};
+
+const STATUS_BADGE_CLASSES: Record<AppointmentStatus, string> = {
+  confirmed: "bg-primary/10 text-primary",
+  checked_in: "bg-amber-100 text-amber-800",
+  in_progress: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  no_show: "bg-orange-100 text-orange-800",
+  cancelled: "bg-red-100 text-red-800",
+};
+
+export function describeStatus(status: string): string {
+  return STATUS_LABELS[status as AppointmentStatus] ?? status;
+}
+
+export function getStatusBadgeClass(status: string): string {
+  return STATUS_BADGE_CLASSES[status as AppointmentStatus] ?? "bg-muted text-muted-foreground";
+}
@@ -0,0 +1,38 @@
+import type { AvailabilityReason, AvailabilityReasonCode, OccurrenceConflict } from "@shared/schema";
+
+const REASON_LABELS: Record<AvailabilityReasonCode, string> = {
+  invalid_time_range: "De eindtijd moet na de starttijd liggen",
+  staff_inactive: "Deze medewerker is niet actief",
+  inactive_day: "De salon is gesloten op deze dag",
+  outside_working_hours: "Buiten de werkuren van de medewerker",
+  beyond_booking_window: "Te ver in de toekomst om te boeken",
+  on_leave: "De medewerker is afwezig (verlof of feestdag)",
+  overlap: "Overlapt met een andere afspraak van deze medewerker",
+  buffer_overlap: "Te dicht op een andere afspraak (voorbereidings- of opruimtijd)",
+};
+
+export function describeAvailabilityReason(reason: AvailabilityReason): string {
+  return REASON_LABELS[reason.code] ?? reason.message;
+}
+
+// apiRequest errors read "409: {json body}"
+function parseConflictBody(error: unknown): Record<string, unknown> | null {
+  if (!(error instanceof Error) || !error.message.startsWith("409:")) return null;
+  try {
+    return JSON.parse(error.message.slice(4));
+  } catch {
+    return null;
+  }
+}
+
+// The refusal reasons of a 409
+export function getAvailabilityReasons(error: unknown): AvailabilityReason[] {
+  const body = parseConflictBody(error);
+  return Array.isArray(body?.reasons) ? body.reasons : [];
+}
+
+// Every refused occurrence of a 409 for a series booking or series move
+export function getOccurrenceConflicts(error: unknown): OccurrenceConflict[] {
+  const body = parseConflictBody(error);
+  return Array.isArray(body?.conflicts) ? body.conflicts : [];
+}
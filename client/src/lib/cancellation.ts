@@ -0,0 +1,13 @@
+import type { CancellationReason } from "@shared/schema";
+
+export const CANCELLATION_REASON_LABELS: Record<CancellationReason, string> = {
+  customer_request: "Op verzoek van de klant",
+  no_show: "Klant niet komen opdagen",
+  illness: "Ziekte",
+  salon_closed: "Salon gesloten",
+};
+
+export function describeCancellationReason(reason: string | null): string {
+  if (!reason) return "Geannuleerd in Odoo";
+  return CANCELLATION_REASON_LABELS[reason as CancellationReason] ?? reason;
+}
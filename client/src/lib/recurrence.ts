@@ -0,0 +1,24 @@
+import type { SeriesScope } from "@shared/schema";
+
+export const SERIES_SCOPE_LABELS: Record<SeriesScope, string> = {
+  occurrence: "Alleen deze afspraak",
+  following: "Deze en volgende afspraken",
+  all: "Alle afspraken in de reeks",
+};
+
+// Dutch summary of a weekly RRULE, e.g. "Elke 6 weken, 8 keer"
+export function describeRecurrenceRule(rrule: string): string {
+  const parts = Object.fromEntries(
+    rrule.split(";").map(part => part.split("=") as [string, string])
+  );
+  const interval = Number(parts.INTERVAL || 1);
+  const every = interval === 1 ? "Elke week" : `Elke ${interval} weken`;
+
+  if (parts.COUNT) return `${every}, ${parts.COUNT} keer`;
+  if (parts.UNTIL) {
+    const until = parts.UNTIL;
+    const date = new Date(`${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}T00:00:00`);
+    return `${every}, tot ${date.toLocaleDateString("nl-NL", { day: "numeric", month: "long", year: "numeric" })}`;
+  }
+  return every;
+}
@@ -1,61 +1,142 @@
 import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 import { CalendarGrid } from "@/components/calendar/CalendarGrid";
+import { AgendaView } from "@/components/calendar/AgendaView";
 import { SettingsPanel } from "@/components/calendar/SettingsPanel";
 import { AppointmentDetails } from "@/components/calendar/AppointmentDetails";
 import { RescheduleDialog } from "@/components/calendar/RescheduleDialog";
 import { CancelAppointmentDialog } from "@/components/calendar/CancelAppointmentDialog";
 import { StaffLegend } from "@/components/calendar/StaffLegend";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useOdooSync } from "@/hooks/useOdooSync";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { describeAvailabilityReason, getAvailabilityReasons } from "@/lib/availability";
+import { describeStatus } from "@/lib/appointment-status";
 import { 
   Calendar as CalendarIcon, 
   ChevronLeft, 
   ChevronRight, 
   Settings,
-  FolderSync 
+  FolderSync,
+  AlertTriangle,
+  LogOut
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { format, addDays, subDays, startOfWeek, addWeeks, subWeeks, addMonths, subMonths, isSameDay } from "date-fns";
-import type { Appointment, Staff, CalendarSettings } from "@shared/schema";
+import { MAX_OUTBOX_ATTEMPTS, type Appointment, type AppointmentTransition, type Staff, type CalendarSettings } from "@shared/schema";
 
-type ViewMode = 'day' | 'week' | 'month';
+type ViewMode = 'day' | 'week' | 'month' | 'timeline' | 'agenda';
+
+// The timeline view spans 1 to 14 days
+const TIMELINE_DAY_OPTIONS = Array.from({ length: 14 }, (_, index) => index + 1);
+
+const roleLabels: Record<string, string> = {
+  admin: "Beheerder",
+  receptionist: "Receptie",
+  stylist: "Stylist",
+};
 
 export default function CalendarPage() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [viewMode, setViewMode] = useState<ViewMode>('week');
+  const [timelineDays, setTimelineDays] = useState(7);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
   const [showSettings, setShowSettings] = useState(false);
   const [rescheduleDialogOpen, setRescheduleDialogOpen] = useState(false);
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
   const [detailsPanelCollapsed, setDetailsPanelCollapsed] = useState(false);
   const [selectedStaffIds, setSelectedStaffIds] = useState<string[]>([]);
+  const [showCancelled, setShowCancelled] = useState(false);
+  const { toast } = useToast();
 
-  const { syncWithOdoo, isSyncing, syncResult, syncError } = useOdooSync();
+  const { user, logoutMutation } = useAuth();
+  const isAdmin = user?.role === "admin";
+  // Stylists see the calendar read-only
+  const canEditAppointments = user?.role === "admin" || user?.role === "receptionist";
+  const { isSyncing, syncRuns, outbox, retryOutbox, isRetryingOutbox } = useOdooSync();
+  const latestRun = syncRuns[0];
+  // Failed outbox items were given up on after repeated retries; only "Opnieuw" sends them again
+  const pendingOutboxCount = outbox.filter(item => item.status !== "failed").length;
+  const failedOutboxCount = outbox.length - pendingOutboxCount;
 
   const { data: staff = [] } = useQuery<Staff[]>({
     queryKey: ["/api/staff"],
   });
 
+  // A stylist's calendar shows their own column; the server only returns their staff record
+  // and appointments, so this just makes the selection explicit
+  const isStylist = user?.role === "stylist";
+  useEffect(() => {
+    if (isStylist && user?.staffId) {
+      setSelectedStaffIds([user.staffId]);
+    }
+  }, [isStylist, user?.staffId]);
+
   const { data: settings } = useQuery<CalendarSettings>({
     queryKey: ["/api/settings"],
   });
 
-  // Auto-sync on component mount
-  useEffect(() => {
-    const lastSync = settings?.lastOdooSync;
-    if (!lastSync) {
-      // No previous sync, trigger initial sync
-      syncWithOdoo({});
-    } else {
-      // Check if last sync was more than 5 minutes ago
-      const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-      if (new Date(lastSync) < fiveMinutesAgo) {
-        syncWithOdoo({});
-      }
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [settings?.lastOdooSync]);
+  const transitionMutation = useMutation({
+    mutationFn: async ({ appointment, transition }: { appointment: Appointment; transition: AppointmentTransition }) => {
+      const response = await apiRequest("POST", `/api/appointments/${appointment.id}/${transition}`);
+      return response.json();
+    },
+    onSuccess: (result: Appointment) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      setSelectedAppointment(result);
+      toast({
+        title: "Status bijgewerkt",
+        description: `${result.customerName}: ${describeStatus(result.status)}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Status wijzigen mislukt",
+        description: error instanceof Error ? error.message : "Onbekende fout",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (appointment: Appointment) => {
+      const response = await apiRequest("POST", `/api/appointments/${appointment.id}/restore`);
+      return response.json();
+    },
+    onSuccess: (result: Appointment & { odooQueued?: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/outbox"] });
+      setSelectedAppointment(result);
+      toast({
+        title: "Afspraak hersteld",
+        description: result.odooQueued
+          ? "De afspraak is hersteld. Odoo is niet bereikbaar; de wijziging wordt later opnieuw geprobeerd."
+          : "De afspraak is hersteld en weer actief in Odoo.",
+      });
+    },
+    onError: (error) => {
+      const reasons = getAvailabilityReasons(error);
+      toast({
+        title: "Herstellen mislukt",
+        description: reasons.length > 0
+          ? reasons.map(describeAvailabilityReason).join(". ")
+          : error instanceof Error ? error.message : "Onbekende fout",
+        variant: "destructive",
+      });
+    },
+  });
 
   const navigateDate = (direction: 'prev' | 'next') => {
     switch (viewMode) {
@@ -65,6 +146,7 @@ export default function CalendarPage() {
         );
         break;
       case 'week':
+      case 'agenda':
         setCurrentDate(current => 
           direction === 'next' ? addWeeks(current, 1) : subWeeks(current, 1)
         );
@@ -74,6 +156,11 @@ export default function CalendarPage() {
           direction === 'next' ? addMonths(current, 1) : subMonths(current, 1)
         );
         break;
+      case 'timeline':
+        setCurrentDate(current => 
+          direction === 'next' ? addDays(current, timelineDays) : subDays(current, timelineDays)
+        );
+        break;
     }
   };
 
@@ -91,6 +178,12 @@ export default function CalendarPage() {
         return `${format(weekStart, 'MMM d')} - ${format(weekEnd, 'MMM d, yyyy')}`;
       case 'month':
         return format(currentDate, 'MMMM yyyy');
+      case 'timeline':
+        return timelineDays === 1
+          ? format(currentDate, 'EEEE, MMMM d, yyyy')
+          : `${format(currentDate, 'MMM d')} - ${format(addDays(currentDate, timelineDays - 1), 'MMM d, yyyy')}`;
+      case 'agenda':
+        return `Vanaf ${format(currentDate, 'MMMM d, yyyy')}`;
       default:
         return format(currentDate, 'MMMM d, yyyy');
     }
@@ -150,21 +243,150 @@ export default function CalendarPage() {
           </div>
 
           <div className="flex items-center gap-3">
-            {/* FolderSync Status Indicator */}
-            <div className="flex items-center gap-2 px-3 py-1.5 rounded-md bg-muted text-muted-foreground text-sm">
-              <FolderSync 
-                className={cn("text-xs transition-transform", isSyncing && "animate-spin")} 
-                size={12} 
+            {/* FolderSync Status Indicator - click for recent run history */}
+            <Popover>
+              <PopoverTrigger asChild>
+                <button
+                  className={cn(
+                    "flex items-center gap-2 px-3 py-1.5 rounded-md text-sm",
+                    latestRun?.status === "failed" && !isSyncing
+                      ? "bg-red-100 text-red-800"
+                      : "bg-muted text-muted-foreground"
+                  )}
+                  data-testid="button-sync-status"
+                >
+                  {latestRun?.status === "failed" && !isSyncing ? (
+                    <AlertTriangle size={12} />
+                  ) : (
+                    <FolderSync 
+                      className={cn("text-xs transition-transform", isSyncing && "animate-spin")} 
+                      size={12} 
+                    />
+                  )}
+                  <span data-testid="text-sync-status">
+                    {isSyncing
+                      ? "Synchroniseren..."
+                      : latestRun?.status === "failed"
+                        ? `Sync mislukt ${formatLastSync(String(latestRun.startedAt))}`
+                        : `Gesynchroniseerd ${formatLastSync(settings?.lastOdooSync ? String(settings.lastOdooSync) : null)}`}
+                  </span>
+                  {pendingOutboxCount > 0 && (
+                    <span
+                      className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 text-xs font-medium"
+                      data-testid="badge-outbox-pending"
+                    >
+                      {pendingOutboxCount} wachtend
+                    </span>
+                  )}
+                  {failedOutboxCount > 0 && (
+                    <span
+                      className="px-1.5 py-0.5 rounded bg-red-100 text-red-800 text-xs font-medium"
+                      data-testid="badge-outbox-failed"
+                    >
+                      {failedOutboxCount} mislukt
+                    </span>
+                  )}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-96 p-0" align="end">
+                <div className="px-4 py-3 border-b border-border">
+                  <h4 className="text-sm font-semibold text-foreground">Synchronisatie Geschiedenis</h4>
+                </div>
+                {outbox.length > 0 && (
+                  <div className="px-4 py-3 border-b border-border bg-amber-50">
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-xs font-semibold text-amber-800">
+                        {[
+                          pendingOutboxCount > 0 &&
+                            `${pendingOutboxCount} wijziging${pendingOutboxCount > 1 ? 'en' : ''} wacht${pendingOutboxCount > 1 ? 'en' : ''} op Odoo`,
+                          failedOutboxCount > 0 &&
+                            `${failedOutboxCount} mislukt na ${MAX_OUTBOX_ATTEMPTS} pogingen`,
+                        ].filter(Boolean).join(", ")}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-6 text-xs"
+                        onClick={() => retryOutbox()}
+                        disabled={isRetryingOutbox}
+                        data-testid="button-retry-outbox"
+                      >
+                        {isRetryingOutbox ? "Bezig..." : "Opnieuw"}
+                      </Button>
+                    </div>
+                    {outbox.slice(0, 5).map(item => {
+                      const operationLabels: Record<string, string> = {
+                        update: "Wijzigen",
+                        delete: "Verwijderen",
+                        create_sales_order: "Verkooporder",
+                      };
+                      return (
+                        <p
+                          key={item.id}
+                          className={cn("text-xs", item.status === "failed" ? "text-red-800" : "text-amber-800")}
+                          data-testid={`outbox-item-${item.id}`}
+                        >
+                          {operationLabels[item.operation] ?? item.operation} · event {item.odooEventId} · {item.attempts} pogingen
+                          {item.status === "failed" && " · mislukt"}
+                          {item.lastError && <span className="block text-amber-700/80 truncate" title={item.lastError}>{item.lastError}</span>}
+                        </p>
+                      );
+                    })}
+                  </div>
+                )}
+                <div className="max-h-80 overflow-y-auto custom-scrollbar divide-y divide-border">
+                  {syncRuns.length === 0 ? (
+                    <p className="px-4 py-3 text-xs text-muted-foreground">Nog geen synchronisaties</p>
+                  ) : (
+                    syncRuns.slice(0, 10).map(run => (
+                      <div key={run.id} className="px-4 py-2 text-xs" data-testid={`sync-run-${run.id}`}>
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium text-foreground">
+                            {format(new Date(run.startedAt), 'd MMM HH:mm')}
+                            <span className="ml-2 text-muted-foreground">
+                              {run.trigger === "scheduled" ? "automatisch" : "handmatig"}
+                              {run.mode && ` · ${run.mode === "full" ? "volledig" : "incrementeel"}`}
+                            </span>
+                          </span>
+                          <span className={cn(
+                            run.status === "success" && "text-green-600",
+                            run.status === "failed" && "text-red-600",
+                            run.status === "running" && "text-muted-foreground"
+                          )}>
+                            {run.status === "success" ? "OK" : run.status === "failed" ? "Mislukt" : "Bezig"}
+                          </span>
+                        </div>
+                        {run.status === "success" && (
+                          <p className="text-muted-foreground mt-0.5">
+                            {run.created} nieuw, {run.updated} bijgewerkt, {run.deleted + run.cancelled} verwijderd
+                            {run.windowStart && run.windowEnd && ` · ${format(new Date(run.windowStart), 'd MMM')} - ${format(new Date(run.windowEnd), 'd MMM')}`}
+                          </p>
+                        )}
+                        {run.error && (
+                          <p className="text-red-600 mt-0.5 break-words">{run.error}</p>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </PopoverContent>
+            </Popover>
+
+            {/* Cancelled appointments are hidden unless asked for */}
+            <div className="flex items-center gap-2">
+              <Switch
+                id="show-cancelled"
+                checked={showCancelled}
+                onCheckedChange={setShowCancelled}
+                data-testid="switch-show-cancelled"
               />
-              <span data-testid="text-sync-status">
-                {isSyncing ? "Synchroniseren..." : `Gesynchroniseerd ${formatLastSync(settings?.lastOdooSync ? String(settings.lastOdooSync) : null)}`}
-              </span>
+              <Label htmlFor="show-cancelled" className="text-sm font-normal">Geannuleerd tonen</Label>
             </div>
 
             {/* View Mode Switcher */}
             <div className="flex items-center bg-muted rounded-lg p-1">
-              {(['day', 'week', 'month'] as ViewMode[]).map((mode) => {
-                const modeLabels = { day: 'Dag', week: 'Week', month: 'Maand' };
+              {(['day', 'week', 'month', 'timeline', 'agenda'] as ViewMode[]).map((mode) => {
+                const modeLabels = { day: 'Dag', week: 'Week', month: 'Maand', timeline: 'Tijdlijn', agenda: 'Agenda' };
                 return (
                   <Button
                     key={mode}
@@ -179,15 +401,35 @@ export default function CalendarPage() {
               })}
             </div>
 
-            {/* Settings Button */}
-            <Button
-              variant="outline"
-              onClick={() => setShowSettings(!showSettings)}
-              data-testid="button-toggle-settings"
-            >
-              <Settings size={16} className="mr-2" />
-              Instellingen
-            </Button>
+            {/* Settings Button (admins only; the server refuses settings changes from others) */}
+            {isAdmin && (
+              <Button
+                variant="outline"
+                onClick={() => setShowSettings(!showSettings)}
+                data-testid="button-toggle-settings"
+              >
+                <Settings size={16} className="mr-2" />
+                Instellingen
+              </Button>
+            )}
+
+            {/* Logged-in user */}
+            <div className="flex items-center gap-2 pl-3 border-l border-border">
+              <div className="text-right">
+                <p className="text-sm font-medium text-foreground" data-testid="text-username">{user?.username}</p>
+                <p className="text-xs text-muted-foreground">{roleLabels[user?.role ?? ""] ?? user?.role}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title="Uitloggen"
+                data-testid="button-logout"
+              >
+                <LogOut size={16} />
+              </Button>
+            </div>
           </div>
         </div>
 
@@ -224,6 +466,21 @@ export default function CalendarPage() {
             <div className="ml-4 text-lg font-semibold text-foreground">
               <span data-testid="text-current-date">{formatDisplayDate()}</span>
             </div>
+
+            {viewMode === 'timeline' && (
+              <Select value={String(timelineDays)} onValueChange={(value) => setTimelineDays(Number(value))}>
+                <SelectTrigger className="ml-2 w-28 h-8" data-testid="select-timeline-days">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMELINE_DAY_OPTIONS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 1 ? "1 dag" : `${days} dagen`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
 
           {/* Staff Legend - Horizontal */}
@@ -237,13 +494,19 @@ export default function CalendarPage() {
         </div>
       </header>
 
+      {isStylist && !user?.staffId && (
+        <div className="px-6 py-2 bg-amber-50 border-b border-amber-200 text-sm text-amber-800" data-testid="banner-no-staff-link">
+          Je account is nog niet gekoppeld aan een medewerker. Vraag een beheerder om de koppeling te maken.
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="flex-1 flex overflow-hidden">
 
         {/* Calendar View */}
         <main className="flex-1 flex flex-col bg-background overflow-hidden">
           {/* Calendar Header - Day and Week Views Only */}
-          {viewMode !== 'month' && (
+          {(viewMode === 'day' || viewMode === 'week') && (
             <div className="bg-card border-b border-border sticky top-0 z-20">
               <div className="flex">
                 {/* Time column header */}
@@ -377,14 +640,26 @@ export default function CalendarPage() {
             </div>
           )}
 
-          {/* Calendar Grid */}
-          <CalendarGrid
-            currentDate={currentDate}
-            viewMode={viewMode}
-            onAppointmentSelect={setSelectedAppointment}
-            selectedAppointment={selectedAppointment}
-            selectedStaffIds={selectedStaffIds}
-          />
+          {/* Calendar Grid, or the agenda list */}
+          {viewMode === 'agenda' ? (
+            <AgendaView
+              currentDate={currentDate}
+              onAppointmentSelect={setSelectedAppointment}
+              selectedAppointment={selectedAppointment}
+              selectedStaffIds={selectedStaffIds}
+              showCancelled={showCancelled}
+            />
+          ) : (
+            <CalendarGrid
+              currentDate={currentDate}
+              viewMode={viewMode}
+              timelineDays={timelineDays}
+              onAppointmentSelect={setSelectedAppointment}
+              selectedAppointment={selectedAppointment}
+              selectedStaffIds={selectedStaffIds}
+              showCancelled={showCancelled}
+            />
+          )}
         </main>
 
         {/* Right Sidebar */}
@@ -403,14 +678,18 @@ export default function CalendarPage() {
               staff={staff}
               isCollapsed={detailsPanelCollapsed}
               onToggleCollapse={() => setDetailsPanelCollapsed(!detailsPanelCollapsed)}
-              onReschedule={(appointment) => {
+              onReschedule={canEditAppointments ? (appointment) => {
                 setSelectedAppointment(appointment);
                 setRescheduleDialogOpen(true);
-              }}
-              onCancel={(appointment) => {
+              } : undefined}
+              onCancel={canEditAppointments ? (appointment) => {
                 setSelectedAppointment(appointment);
                 setCancelDialogOpen(true);
-              }}
+              } : undefined}
+              onRestore={canEditAppointments ? (appointment) => restoreMutation.mutate(appointment) : undefined}
+              isRestoring={restoreMutation.isPending}
+              onTransition={canEditAppointments ? (appointment, transition) => transitionMutation.mutate({ appointment, transition }) : undefined}
+              pendingTransition={transitionMutation.isPending ? transitionMutation.variables?.transition ?? null : null}
             />
           </aside>
         )}
@@ -426,6 +705,7 @@ export default function CalendarPage() {
         appointment={selectedAppointment}
         open={cancelDialogOpen}
         onOpenChange={setCancelDialogOpen}
+        onCancelled={setSelectedAppointment}
       />
     </div>
   );
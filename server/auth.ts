@@ -0,0 +1,229 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { insertUserSchema, userRoles, type User as SelectUser, type PublicUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Stored as "<hex hash>.<hex salt>"
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not logged in" });
+  }
+  next();
+}
+
+// Use after requireAuth: lets the request through only for the given roles
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ error: "You don't have permission to do this" });
+    }
+    next();
+  };
+}
+
+// Stylists only see their own calendar. Returns the staff id the request is limited to,
+// or undefined when it may see everyone. A stylist without a linked staff member gets
+// null, which matches nothing.
+export function getOwnStaffScope(req: Request): string | null | undefined {
+  if (req.user?.role !== "stylist") return undefined;
+  return req.user.staffId ?? null;
+}
+
+// Without any users nobody could log in, so create the first admin from ADMIN_USERNAME /
+// ADMIN_PASSWORD. In development admin/admin is used when those aren't set.
+async function ensureAdminUser() {
+  const users = await storage.getAllUsers();
+  if (users.length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME || "admin";
+  let password = process.env.ADMIN_PASSWORD;
+  if (!password) {
+    if (process.env.NODE_ENV === "production") {
+      console.warn("[Auth] No users exist and ADMIN_PASSWORD is not set; nobody can log in");
+      return;
+    }
+    password = "admin";
+    console.warn(`[Auth] Created development admin user "${username}" with password "admin"`);
+  }
+
+  await storage.createUser({ username, password: await hashPassword(password), role: "admin" });
+}
+
+export async function setupAuth(app: Express) {
+  const MemoryStore = createMemoryStore(session);
+  const PgStore = connectPgSimple(session);
+
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: sessionSecret || "dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    // Sessions live next to the rest of the data: in Postgres when configured, otherwise in memory
+    store: pool
+      ? new PgStore({ pool, createTableIfMissing: true })
+      : new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureAdminUser();
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(toPublicUser(req.user));
+  });
+
+  // Everything else under /api needs a logged-in user
+  app.use("/api", requireAuth);
+
+  // User management (admins only)
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const userData = insertUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(userData.username)) {
+        return res.status(400).json({ error: "Username already exists" });
+      }
+      if (userData.staffId && !(await storage.getStaff(userData.staffId))) {
+        return res.status(400).json({ error: "Staff member not found" });
+      }
+
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid user data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  app.put("/api/users/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const updates = z.object({
+        password: z.string().min(1).optional(),
+        role: z.enum(userRoles).optional(),
+        staffId: z.string().nullable().optional(),
+      }).parse(req.body);
+      if (updates.staffId && !(await storage.getStaff(updates.staffId))) {
+        return res.status(400).json({ error: "Staff member not found" });
+      }
+
+      const user = await storage.updateUser(req.params.id, {
+        ...(updates.role && { role: updates.role }),
+        ...(updates.staffId !== undefined && { staffId: updates.staffId }),
+        ...(updates.password && { password: await hashPassword(updates.password) }),
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid user data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+}
@@ -0,0 +1,407 @@
+import xmlrpc from "xmlrpc";
+import { readFileSync } from "fs";
+import { pathToFileURL } from "url";
+import { buildOdooFixtures, formatOdooDatetime, type OdooFixtures } from "./odooFixtures";
+import { SALON_TIMEZONE, salonParts, salonTime } from "../timezone";
+
+// A stand-in for Odoo's XML-RPC API (common.authenticate, common.version and
+// object.execute_kw) backed by in-memory fixtures, so the app can be run and
+// exercised without a live Odoo. Point ODOO_URL at it, e.g. http://localhost:8069.
+
+interface FakeOdooOptions {
+  port?: number;
+  host?: string;
+  db?: string;
+  username?: string;
+  password?: string;
+  fixtures?: OdooFixtures;
+}
+
+const FAKE_UID = 2;
+
+// many2one fields per model, and the model they point to
+const MANY2ONE: Record<string, Record<string, string>> = {
+  "calendar.event": {
+    partner_id: "res.partner",
+    user_id: "res.users",
+    appointment_resource_id: "appointment.resource",
+    appointment_type_id: "appointment.type",
+    appointment_category_id: "appointment.category",
+    recurrence_id: "calendar.recurrence",
+  },
+  "calendar.recurrence": { base_event_id: "calendar.event" },
+  "appointment.type": { product_id: "product.product" },
+  "appointment.resource": { resource_calendar_id: "resource.calendar", resource_id: "resource.resource" },
+  "resource.calendar.leaves": { calendar_id: "resource.calendar", resource_id: "resource.resource" },
+  "resource.calendar.attendance": { calendar_id: "resource.calendar" },
+  "res.users": { partner_id: "res.partner" },
+  "sale.order": { partner_id: "res.partner" },
+  "sale.order.line": { order_id: "sale.order", product_id: "product.product" },
+};
+
+type Record_ = Record<string, any>;
+type Domain = any[];
+
+class OdooFault extends Error {}
+
+export class FakeOdooStore {
+  private models = new Map<string, Map<number, Record_>>();
+  private nextId = 1000;
+
+  constructor(fixtures: OdooFixtures) {
+    for (const [model, records] of Object.entries(fixtures)) {
+      const table = this.table(model);
+      for (const record of records) {
+        table.set(record.id, {
+          create_date: formatOdooDatetime(new Date()),
+          write_date: formatOdooDatetime(new Date()),
+          ...record,
+        });
+        this.nextId = Math.max(this.nextId, record.id + 1);
+      }
+    }
+  }
+
+  execute(model: string, method: string, args: any[], kwargs: Record_): any {
+    const context = kwargs.context || {};
+
+    switch (method) {
+      case "search_read":
+        return this.searchRead(model, args[0] || kwargs.domain || [], kwargs, context);
+      case "search":
+        return this.search(model, args[0] || [], kwargs, context).map(r => r.id);
+      case "search_count":
+        return this.search(model, args[0] || [], {}, context).length;
+      case "read":
+        return this.read(model, args[0] || [], args[1] || kwargs.fields);
+      case "create":
+        return this.create(model, args[0]);
+      case "write":
+        return this.write(model, args[0], args[1]);
+      case "unlink":
+        return this.unlink(model, args[0]);
+      default:
+        throw new OdooFault(`Method ${method} is not supported by the fake Odoo server`);
+    }
+  }
+
+  private table(model: string): Map<number, Record_> {
+    let table = this.models.get(model);
+    if (!table) {
+      table = new Map();
+      this.models.set(model, table);
+    }
+    return table;
+  }
+
+  private search(model: string, domain: Domain, kwargs: Record_, context: Record_): Record_[] {
+    const mentionsActive = domain.some(term => Array.isArray(term) && term[0] === "active");
+    const activeTest = context.active_test !== false && !mentionsActive;
+
+    let records = Array.from(this.table(model).values())
+      .filter(record => !activeTest || record.active !== false)
+      .filter(record => matchesDomain(record, domain));
+
+    if (kwargs.order) {
+      records = sortRecords(records, kwargs.order);
+    }
+    const offset = kwargs.offset || 0;
+    return records.slice(offset, kwargs.limit ? offset + kwargs.limit : undefined);
+  }
+
+  private searchRead(model: string, domain: Domain, kwargs: Record_, context: Record_): Record_[] {
+    return this.search(model, domain, kwargs, context).map(record => project(record, kwargs.fields));
+  }
+
+  private read(model: string, ids: number[], fields?: string[]): Record_[] {
+    const table = this.table(model);
+    return ids.map(id => {
+      const record = table.get(id);
+      if (!record) throw new OdooFault(`Record ${model}(${id}) does not exist`);
+      return project(record, fields);
+    });
+  }
+
+  private create(model: string, values: Record_): number {
+    const id = this.nextId++;
+    const now = formatOdooDatetime(new Date());
+    const record: Record_ = { id, active: true, create_date: now, write_date: now };
+    this.assign(model, record, values);
+    this.table(model).set(id, record);
+
+    if (model === "calendar.event" && values.recurrency) {
+      this.createRecurrence(record);
+    }
+    return id;
+  }
+
+  // Like Odoo, an event created with recurrency=True becomes the first occurrence of a
+  // calendar.recurrence and the other occurrences are generated as separate events, at the
+  // same wall-clock time in the event's zone (event_tz) across DST changes.
+  // Only weekly rules ending after a count or on a date are supported.
+  private createRecurrence(base: Record_) {
+    if (base.rrule_type !== "weekly" || !["count", "end_date"].includes(base.end_type)) {
+      throw new OdooFault("Only weekly recurrences ending after a count or on a date are supported by the fake Odoo server");
+    }
+
+    const timeZone = base.event_tz || SALON_TIMEZONE;
+    const firstStart = parseOdooDatetime(base.start);
+    const duration = parseOdooDatetime(base.stop) - firstStart;
+    const first = salonParts(new Date(firstStart), timeZone);
+    const stepDays = (base.interval || 1) * 7;
+    const count = base.end_type === "count" ? base.count || 1 : Infinity;
+    const [untilYear, untilMonth, untilDay] = String(base.until).split("-").map(Number);
+    const untilEnd = base.end_type === "end_date"
+      ? salonTime(untilYear, untilMonth - 1, untilDay + 1, 0, 0, timeZone).getTime()
+      : Infinity;
+
+    const byDay = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"][first.weekday];
+    const rrule = [
+      "FREQ=WEEKLY",
+      `INTERVAL=${base.interval || 1}`,
+      `BYDAY=${byDay}`,
+      base.end_type === "count" ? `COUNT=${count}` : `UNTIL=${String(base.until).replace(/-/g, "")}T235959`,
+    ].join(";");
+
+    const recurrenceId = this.create("calendar.recurrence", {
+      name: `Every ${base.interval || 1} week(s)`,
+      base_event_id: base.id,
+      rrule_type: "weekly",
+      interval: base.interval || 1,
+      end_type: base.end_type,
+      count: base.end_type === "count" ? count : false,
+      until: base.end_type === "end_date" ? base.until : false,
+      rrule,
+    });
+    this.assign("calendar.event", base, { recurrence_id: recurrenceId, rrule });
+
+    // Copy the base event's values, with many2one pairs turned back into ids
+    const copied: Record_ = {};
+    for (const [field, value] of Object.entries(base)) {
+      if (["id", "start", "stop", "create_date", "write_date", "recurrency"].includes(field)) continue;
+      copied[field] = MANY2ONE["calendar.event"][field] && Array.isArray(value) ? value[0] : value;
+    }
+
+    for (let index = 1; index < count; index++) {
+      const start = salonTime(first.year, first.month, first.day + index * stepDays, first.hours, first.minutes, timeZone).getTime();
+      if (start >= untilEnd) break;
+      this.create("calendar.event", {
+        ...copied,
+        start: formatOdooDatetime(new Date(start)),
+        stop: formatOdooDatetime(new Date(start + duration)),
+      });
+    }
+  }
+
+  private write(model: string, ids: number[], values: Record_): boolean {
+    const table = this.table(model);
+    for (const id of ids) {
+      const record = table.get(id);
+      if (!record) throw new OdooFault(`Record ${model}(${id}) does not exist`);
+      this.assign(model, record, values);
+      record.write_date = formatOdooDatetime(new Date());
+    }
+    return true;
+  }
+
+  private unlink(model: string, ids: number[]): boolean {
+    const table = this.table(model);
+    for (const id of ids) {
+      if (!table.delete(id)) throw new OdooFault(`Record ${model}(${id}) does not exist`);
+    }
+    return true;
+  }
+
+  private assign(model: string, record: Record_, values: Record_) {
+    const many2one = MANY2ONE[model] || {};
+
+    for (const [field, value] of Object.entries(values)) {
+      if (many2one[field]) {
+        record[field] = value ? [value, this.displayName(many2one[field], value)] : false;
+      } else if (Array.isArray(value) && value.length > 0 && value.every(Array.isArray)) {
+        record[field] = applyX2ManyCommands(record[field] || [], value);
+      } else {
+        record[field] = value;
+      }
+    }
+
+    // calendar.event keeps duration (hours) in step with start/stop
+    if (model === "calendar.event" && record.start && record.stop) {
+      record.duration = (parseOdooDatetime(record.stop) - parseOdooDatetime(record.start)) / 3600000;
+    }
+  }
+
+  private displayName(model: string, id: number): string {
+    return this.table(model).get(id)?.name ?? `${model},${id}`;
+  }
+}
+
+// Odoo x2many write commands: (6, 0, ids) replace, (4, id) link, (3, id) unlink, (5,) clear
+function applyX2ManyCommands(current: number[], commands: any[][]): number[] {
+  let ids = [...current];
+  for (const [command, id, list] of commands) {
+    if (command === 6) ids = [...list];
+    else if (command === 4 && !ids.includes(id)) ids.push(id);
+    else if (command === 3) ids = ids.filter(existing => existing !== id);
+    else if (command === 5) ids = [];
+  }
+  return ids;
+}
+
+function project(record: Record_, fields?: string[]): Record_ {
+  if (!fields || fields.length === 0) return { ...record };
+  const result: Record_ = { id: record.id };
+  for (const field of fields) {
+    result[field] = record[field] ?? false;
+  }
+  return result;
+}
+
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}/;
+
+function parseOdooDatetime(value: string): number {
+  const iso = value.replace(" ", "T");
+  return Date.parse(/Z|[+-]\d{2}:?\d{2}$/.test(iso) ? iso : `${iso}Z`);
+}
+
+// Comparable form of a field value: many2one pairs compare by id, datetimes by instant
+function comparable(value: any): any {
+  if (Array.isArray(value) && value.length === 2 && typeof value[0] === "number" && typeof value[1] === "string") {
+    return value[0];
+  }
+  if (typeof value === "string" && DATETIME_PATTERN.test(value)) {
+    return parseOdooDatetime(value);
+  }
+  return value;
+}
+
+function matchesLeaf(record: Record_, [field, operator, expected]: [string, string, any]): boolean {
+  const raw = field === "active" ? record.active !== false : record[field];
+  const value = comparable(raw ?? false);
+  const target = comparable(expected);
+
+  // x2many fields (plain id lists) match when any id matches
+  if (Array.isArray(value)) {
+    const targets = Array.isArray(expected) ? expected : [expected];
+    const overlaps = value.some(id => targets.includes(id));
+    return operator === "!=" || operator === "not in" ? !overlaps : overlaps;
+  }
+
+  switch (operator) {
+    case "=": return value === target;
+    case "!=": return value !== target;
+    case "<": return value < target;
+    case ">": return value > target;
+    case "<=": return value <= target;
+    case ">=": return value >= target;
+    case "in":
+    case "not in": {
+      if (!Array.isArray(expected)) {
+        throw new OdooFault(`Operator ${operator} expects a list, got ${JSON.stringify(expected)}`);
+      }
+      const listed = expected.map(comparable).includes(value);
+      return operator === "in" ? listed : !listed;
+    }
+    case "like": return typeof value === "string" && value.includes(String(expected));
+    case "ilike": return typeof value === "string" && value.toLowerCase().includes(String(expected).toLowerCase());
+    default:
+      throw new OdooFault(`Operator ${operator} is not supported by the fake Odoo server`);
+  }
+}
+
+// Odoo domains are in Polish notation: '&', '|' take two operands, '!' one,
+// and consecutive terms are implicitly AND-ed
+function matchesDomain(record: Record_, domain: Domain): boolean {
+  let index = 0;
+  const next = (): boolean => {
+    const term = domain[index++];
+    if (term === "&") return [next(), next()].every(Boolean);
+    if (term === "|") return [next(), next()].some(Boolean);
+    if (term === "!") return !next();
+    return matchesLeaf(record, term);
+  };
+
+  let result = true;
+  while (index < domain.length) {
+    result = next() && result;
+  }
+  return result;
+}
+
+function sortRecords(records: Record_[], order: string): Record_[] {
+  const keys = order.split(",").map(part => {
+    const [field, direction] = part.trim().split(/\s+/);
+    return { field, descending: direction?.toUpperCase() === "DESC" };
+  });
+
+  return [...records].sort((a, b) => {
+    for (const { field, descending } of keys) {
+      const left = comparable(a[field]);
+      const right = comparable(b[field]);
+      if (left < right) return descending ? 1 : -1;
+      if (left > right) return descending ? -1 : 1;
+    }
+    return 0;
+  });
+}
+
+export function createFakeOdooServer(options: FakeOdooOptions = {}) {
+  const port = options.port ?? 8069;
+  const db = options.db ?? "fake";
+  const username = options.username ?? "admin";
+  const password = options.password ?? "admin";
+  const store = new FakeOdooStore(options.fixtures ?? buildOdooFixtures());
+
+  // Both /xmlrpc/2/common and /xmlrpc/2/object land here; the method names don't overlap
+  const server = xmlrpc.createServer({ host: options.host ?? "127.0.0.1", port });
+
+  const fault = (error: unknown) => ({
+    faultCode: 1,
+    faultString: error instanceof Error ? error.message : String(error),
+  });
+
+  server.on("version", (_err, _params, callback) => {
+    callback(null, {
+      server_version: "17.0",
+      server_version_info: [17, 0, 0, "final", 0, ""],
+      server_serie: "17.0",
+      protocol_version: 1,
+    });
+  });
+
+  server.on("authenticate", (_err, params, callback) => {
+    const [dbName, login, key] = params;
+    callback(null, dbName === db && login === username && key === password ? FAKE_UID : false);
+  });
+
+  server.on("execute_kw", (_err, params, callback) => {
+    const [dbName, uid, key, model, method, args = [], kwargs = {}] = params;
+    if (dbName !== db || uid !== FAKE_UID || key !== password) {
+      callback(fault(new Error("Access Denied")), null);
+      return;
+    }
+
+    try {
+      callback(null, store.execute(model, method, args, kwargs));
+    } catch (error) {
+      callback(fault(error), null);
+    }
+  });
+
+  return {
+    server,
+    store,
+    close: () => new Promise<void>(resolve => server.httpServer.close(() => resolve())),
+  };
+}
+
+// Run standalone: `npm run odoo:fake` (FAKE_ODOO_PORT, FAKE_ODOO_FIXTURES=path/to/fixtures.json)
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.FAKE_ODOO_PORT || "8069", 10);
+  const fixtures = process.env.FAKE_ODOO_FIXTURES
+    ? JSON.parse(readFileSync(process.env.FAKE_ODOO_FIXTURES, "utf-8"))
+    : undefined;
+
+  createFakeOdooServer({ port, fixtures });
+  console.log(`[Fake Odoo] XML-RPC server on http://127.0.0.1:${port} (db "fake", user "admin", key "admin")`);
+}
@@ -0,0 +1,126 @@
+// Seed data for the fake Odoo server. Records are in the shape Odoo's XML-RPC API
+// returns them (many2one fields as [id, name]), and event dates are relative to the
+// current week so a fresh server always has something to show.
+
+export type OdooFixtures = Record<string, Record<string, any>[]>;
+
+// Odoo stores datetimes in UTC as 'YYYY-MM-DD HH:MM:SS'
+export function formatOdooDatetime(date: Date): string {
+  return date.toISOString().slice(0, 19).replace("T", " ");
+}
+
+export function buildOdooFixtures(today: Date = new Date()): OdooFixtures {
+  // Monday of the current week, local midnight
+  const monday = new Date(today);
+  monday.setHours(0, 0, 0, 0);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+
+  const at = (dayOffset: number, hour: number) => {
+    const date = new Date(monday);
+    date.setDate(date.getDate() + dayOffset);
+    date.setHours(Math.floor(hour), Math.round((hour % 1) * 60), 0, 0);
+    return date;
+  };
+
+  const event = (
+    id: number,
+    dayOffset: number,
+    hour: number,
+    durationHours: number,
+    resource: [number, string],
+    type: [number, string],
+    category: [number, string],
+    customer: [number, string]
+  ) => ({
+    id,
+    name: `${customer[1]} - ${type[1]}`,
+    start: formatOdooDatetime(at(dayOffset, hour)),
+    stop: formatOdooDatetime(at(dayOffset, hour + durationHours)),
+    duration: durationHours,
+    partner_id: [3, "Salon Admin"],
+    partner_ids: [3, customer[0]],
+    user_id: [2, "Salon Admin"],
+    appointment_resource_id: resource,
+    resource_ids: [resource[0]],
+    appointment_type_id: type,
+    appointment_category_id: category,
+    description: false,
+    location: false,
+    active: true,
+  });
+
+  const sarah: [number, string] = [1, "Sarah Klein"];
+  const mike: [number, string] = [2, "Mike Barnes"];
+  const lisa: [number, string] = [3, "Lisa Thompson"];
+
+  const haircut: [number, string] = [1, "Haircut & Styling"];
+  const coloring: [number, string] = [2, "Hair Coloring"];
+  const blowdry: [number, string] = [3, "Blowdry"];
+
+  const cutting: [number, string] = [1, "Knippen"];
+  const colour: [number, string] = [2, "Kleuren"];
+
+  const emma: [number, string] = [10, "Emma Johnson"];
+  const olivia: [number, string] = [11, "Olivia Brown"];
+  const james: [number, string] = [12, "James Wilson"];
+  const sophia: [number, string] = [13, "Sophia Martinez"];
+
+  return {
+    "res.users": [
+      { id: 2, name: "Salon Admin", email: "admin@salon.test", partner_id: [3, "Salon Admin"], active: true },
+    ],
+    "res.partner": [
+      { id: 3, name: "Salon Admin", email: "admin@salon.test", phone: false, mobile: false, is_company: false, active: true },
+      { id: 10, name: "Emma Johnson", email: "emma@example.com", phone: "+32 470 10 10 10", mobile: false, is_company: false, active: true },
+      { id: 11, name: "Olivia Brown", email: "olivia@example.com", phone: false, mobile: "+32 470 11 11 11", is_company: false, active: true },
+      { id: 12, name: "James Wilson", email: false, phone: "+32 470 12 12 12", mobile: "+32 490 12 12 12", is_company: false, active: true },
+      { id: 13, name: "Sophia Martinez", email: "sophia@example.com", phone: false, mobile: false, is_company: false, active: true },
+    ],
+    "resource.calendar": [
+      { id: 1, name: "Standard 40 hours/week", attendance_ids: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10], global_leave_ids: [1] },
+    ],
+    "resource.resource": [
+      { id: 1, name: sarah[1], calendar_id: [1, "Standard 40 hours/week"], active: true },
+      { id: 2, name: mike[1], calendar_id: [1, "Standard 40 hours/week"], active: true },
+      { id: 3, name: lisa[1], calendar_id: [1, "Standard 40 hours/week"], active: true },
+    ],
+    // A public holiday on Friday and a personal afternoon off for Mike on Wednesday
+    "resource.calendar.leaves": [
+      { id: 1, name: "Public Holiday", date_from: formatOdooDatetime(at(4, 0)), date_to: formatOdooDatetime(at(5, 0)), resource_id: false, calendar_id: [1, "Standard 40 hours/week"], time_type: "leave" },
+      { id: 2, name: "Dentist", date_from: formatOdooDatetime(at(2, 13)), date_to: formatOdooDatetime(at(2, 17)), resource_id: [2, mike[1]], calendar_id: [1, "Standard 40 hours/week"], time_type: "leave" },
+    ],
+    // Monday to Friday, 09:00-12:00 and 13:00-17:00 (Odoo dayofweek: '0' = Monday)
+    "resource.calendar.attendance": [0, 1, 2, 3, 4].flatMap((day, i) => [
+      { id: i * 2 + 1, calendar_id: [1, "Standard 40 hours/week"], dayofweek: String(day), hour_from: 9, hour_to: 12, day_period: "morning", name: "Morning" },
+      { id: i * 2 + 2, calendar_id: [1, "Standard 40 hours/week"], dayofweek: String(day), hour_from: 13, hour_to: 17, day_period: "afternoon", name: "Afternoon" },
+    ]),
+    "appointment.resource": [
+      { id: sarah[0], name: sarah[1], employee_id: [1, sarah[1]], resource_calendar_id: [1, "Standard 40 hours/week"], resource_id: [1, sarah[1]], active: true },
+      { id: mike[0], name: mike[1], employee_id: [2, mike[1]], resource_calendar_id: [1, "Standard 40 hours/week"], resource_id: [2, mike[1]], active: true },
+      { id: lisa[0], name: lisa[1], employee_id: [3, lisa[1]], resource_calendar_id: [1, "Standard 40 hours/week"], resource_id: [3, lisa[1]], active: true },
+    ],
+    "appointment.category": [
+      { id: cutting[0], name: cutting[1], color: 3 },
+      { id: colour[0], name: colour[1], color: 9 },
+    ],
+    "product.product": [
+      { id: 1, name: "Haircut & Styling", list_price: 45, active: true },
+      { id: 2, name: "Hair Coloring", list_price: 120, active: true },
+      { id: 3, name: "Blowdry", list_price: 30, active: true },
+    ],
+    "appointment.type": [
+      { id: haircut[0], name: haircut[1], appointment_duration: 0.75, is_published: true, category: "custom", resource_ids: [], product_id: [1, "Haircut & Styling"], active: true },
+      { id: coloring[0], name: coloring[1], appointment_duration: 2, is_published: true, category: "custom", resource_ids: [sarah[0], lisa[0]], product_id: [2, "Hair Coloring"], active: true },
+      { id: blowdry[0], name: blowdry[1], appointment_duration: 0.5, is_published: true, category: "custom", resource_ids: [], product_id: [3, "Blowdry"], active: true },
+    ],
+    "calendar.event": [
+      event(100, 0, 10, 0.75, sarah, haircut, cutting, emma),
+      event(101, 0, 14, 2, lisa, coloring, colour, olivia),
+      event(102, 1, 9, 0.5, mike, blowdry, cutting, james),
+      event(103, 2, 11, 0.75, mike, haircut, cutting, sophia),
+      event(104, 3, 13, 2, sarah, coloring, colour, emma),
+    ],
+    "sale.order": [],
+    "sale.order.line": [],
+  };
+}
@@ -2,6 +2,8 @@ import "dotenv/config";
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { syncService } from "./services/sync";
+import { outboxService } from "./services/outbox";
 
 const app = express();
 
@@ -11,6 +13,8 @@ declare module 'http' {
   }
 }
 app.use(express.json({
+  // Large enough for a calendar export uploaded for import
+  limit: "5mb",
   verify: (req, _res, buf) => {
     req.rawBody = buf;
   }
@@ -78,5 +82,9 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Keep local data fresh without depending on a browser being open
+    syncService.startScheduler(parseInt(process.env.ODOO_SYNC_INTERVAL_MINUTES || '5', 10));
+    outboxService.start();
   });
 })();
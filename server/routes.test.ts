@@ -0,0 +1,84 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+
+// The API on an ephemeral port with in-memory storage, called as a logged-in user
+let server: Server;
+let baseUrl: string;
+
+before(async () => {
+  const app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+// Logs in and returns a fetch for that user's session
+async function loginAs(username: string, role: "admin" | "receptionist" | "stylist", staffId?: string) {
+  await storage.createUser({ username, password: await hashPassword("secret"), role, staffId });
+  const response = await fetch(`${baseUrl}/api/login`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password: "secret" }),
+  });
+  assert.equal(response.status, 200);
+  const cookie = response.headers.getSetCookie().map(value => value.split(";")[0]).join("; ");
+  return (path: string) => fetch(`${baseUrl}${path}`, { headers: { cookie } });
+}
+
+describe("stylist self-view", () => {
+  let lisaId: string;
+
+  before(async () => {
+    lisaId = (await storage.createStaff({ odooUserId: 301, name: "Lisa" })).id;
+    const appointment = {
+      name: "Jane Doe - Haircut",
+      customerName: "Jane Doe",
+      service: "Haircut",
+      startTime: new Date("2026-03-02T09:00:00Z"),
+      endTime: new Date("2026-03-02T10:00:00Z"),
+      duration: 60,
+    };
+    await storage.createAppointment({ ...appointment, odooEventId: 1, staffId: lisaId });
+    await storage.createAppointment({ ...appointment, odooEventId: 2 });
+  });
+
+  it("lists only the stylist's own appointments", async () => {
+    const get = await loginAs("lisa", "stylist", lisaId);
+    const response = await get("/api/appointments?start=2026-03-02T00:00:00Z&end=2026-03-03T00:00:00Z");
+    assert.deepEqual((await response.json()).map((apt: { odooEventId: number }) => apt.odooEventId), [1]);
+  });
+
+  it("lists nothing for a stylist without a linked staff member, not the unassigned appointments", async () => {
+    const get = await loginAs("unlinked", "stylist");
+    assert.deepEqual(await (await get("/api/appointments?start=2026-03-02T00:00:00Z&end=2026-03-03T00:00:00Z")).json(), []);
+    assert.deepEqual(await (await get("/api/appointments")).json(), []);
+  });
+
+  it("keeps the outbox to admins and receptionists", async () => {
+    const asStylist = await loginAs("mike", "stylist", lisaId);
+    assert.equal((await asStylist("/api/outbox")).status, 403);
+
+    const asReceptionist = await loginAs("desk", "receptionist");
+    assert.equal((await asReceptionist("/api/outbox")).status, 200);
+  });
+});
+
+describe("availability", () => {
+  it("refuses a range longer than the slot search will walk", async () => {
+    const get = await loginAs("front", "receptionist");
+    const response = await get("/api/availability?appointmentTypeIds=1&start=2026-03-02T00:00:00Z&end=2100-01-01T00:00:00Z");
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, /at most 62 days/);
+  });
+});
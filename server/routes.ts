@@ -1,13 +1,111 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { odooService } from "./services/odoo";
-import { insertAppointmentSchema, insertStaffSchema, insertCalendarSettingsSchema, type Appointment } from "@shared/schema";
+import { setupAuth, requireRole, getOwnStaffScope } from "./auth";
+import { odooService, parseOdooDatetime, type OdooAppointmentType } from "./services/odoo";
+import { syncService } from "./services/sync";
+import { outboxService } from "./services/outbox";
+import { availabilityService } from "./services/availability";
+import { auditService, odooStatusFromPush } from "./services/audit";
+import { lifecycleService } from "./services/lifecycle";
+import { recurrenceService } from "./services/recurrence";
+import { visitService } from "./services/visit";
+import { icsService } from "./services/ics";
+import { icsImportService, IcsImportError } from "./services/icsImport";
+import { salonShift, shiftSalonTime } from "./timezone";
+import {
+  insertAppointmentSchema,
+  insertStaffSchema,
+  insertCalendarSettingsSchema,
+  insertAppointmentTypeTimingSchema,
+  insertCalendarFeedSchema,
+  cancellationReasons,
+  cancellableStatuses,
+  appointmentTransitions,
+  getAvailableTransitions,
+  recurrenceRuleSchema,
+  bookingSegmentSchema,
+  seriesScopes,
+  appointmentSearchSchema,
+  icsImportSchema,
+  MAX_OCCURRENCES,
+  type Appointment,
+  type AppointmentPage,
+  type AppointmentHistoryEntry,
+  type Staff,
+  type AppointmentTransition,
+} from "@shared/schema";
 import { z } from "zod";
+import { randomBytes, randomUUID } from "crypto";
+
+// Agenda pages continue after the last appointment shown, by start time and id, so
+// appointments added or removed meanwhile don't shift later pages
+function encodeCursor(appointment: Appointment): string {
+  return Buffer.from(JSON.stringify([new Date(appointment.startTime).toISOString(), appointment.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): { startTime: Date; id: string } | undefined {
+  try {
+    const [startTime, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const date = new Date(startTime);
+    return typeof id === "string" && !isNaN(date.getTime()) ? { startTime: date, id } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// The slot search walks every salon day in its range, so one request can't ask for years
+const MAX_AVAILABILITY_DAYS = 62;
+
+// Subscription feeds also show the recent past, so a visit from last week can still be looked up
+const FEED_PAST_DAYS = 30;
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // iCalendar subscription feed. Calendar apps fetch it without a session, so it's registered
+  // before the login requirement below; the unguessable token in the URL is the credential.
+  app.get("/api/feeds/:token.ics", async (req, res) => {
+    try {
+      const feed = await storage.getCalendarFeedByToken(req.params.token);
+      const feedStaff = feed?.staffId ? await storage.getStaff(feed.staffId) : undefined;
+      if (!feed || (feed.staffId && !feedStaff)) {
+        return res.status(404).json({ error: "Feed not found" });
+      }
+
+      const settings = await storage.getCalendarSettings();
+      const now = new Date();
+      const from = new Date(now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000);
+      const to = new Date(now);
+      to.setMonth(to.getMonth() + (settings?.bookingMonthsAhead ?? 5));
+
+      const appointments = (await storage.getAppointmentsByDateRange(from, to))
+        .filter(appointment =>
+          appointment.status !== "cancelled" && (!feedStaff || appointment.staffId === feedStaff.id)
+        )
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+      const calendar = icsService.buildCalendar({
+        name: feedStaff ? `Afspraken ${feedStaff.name}` : "Afspraken salon",
+        appointments,
+        // Salon-wide feeds name the staff member in each event
+        staff: feedStaff ? undefined : await storage.getAllStaff(),
+      });
+      await storage.updateCalendarFeed(feed.id, { lastAccessedAt: now });
+
+      res.set("Content-Type", "text/calendar; charset=utf-8");
+      res.set("Content-Disposition", 'inline; filename="afspraken.ics"');
+      res.send(calendar);
+    } catch (error) {
+      console.error("Failed to generate calendar feed:", error);
+      res.status(500).json({ error: "Failed to generate calendar feed" });
+    }
+  });
+
+  // Sessions, login/logout, and a logged-in user required for every other /api route.
+  // Write routes below are further limited by role; stylists get read-only access.
+  await setupAuth(app);
+
   // Test Odoo connection
-  app.get("/api/test-odoo", async (req, res) => {
+  app.get("/api/test-odoo", requireRole("admin"), async (req, res) => {
     try {
       const version = await odooService.getVersion();
       res.json({ success: true, version });
@@ -23,14 +121,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Staff routes
   app.get("/api/staff", async (req, res) => {
     try {
+      // Stylists only get their own column
+      const ownStaffId = getOwnStaffScope(req);
       const staffMembers = await storage.getAllStaff();
-      res.json(staffMembers);
+      res.json(ownStaffId === undefined ? staffMembers : staffMembers.filter(s => s.id === ownStaffId));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch staff members" });
     }
   });
 
-  app.post("/api/staff", async (req, res) => {
+  app.post("/api/staff", requireRole("admin"), async (req, res) => {
     try {
       const staffData = insertStaffSchema.parse(req.body);
       const staff = await storage.createStaff(staffData);
@@ -44,7 +144,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/staff/:id", async (req, res) => {
+  app.put("/api/staff/:id", requireRole("admin"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = req.body;
@@ -60,29 +160,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Staff leave routes (time off and public holidays synced from Odoo)
+  app.get("/api/leaves", async (req, res) => {
+    try {
+      const { start, end } = req.query;
+      if (!start || !end) {
+        return res.status(400).json({ error: "Start and end are required" });
+      }
+
+      // Stylists see public holidays and their own leave, not colleagues' time off
+      const ownStaffId = getOwnStaffScope(req);
+      const leaves = await storage.getLeavesByDateRange(new Date(start as string), new Date(end as string));
+      res.json(ownStaffId === undefined ? leaves : leaves.filter(leave => !leave.staffId || leave.staffId === ownStaffId));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch leaves" });
+    }
+  });
+
   // Appointments routes
   app.get("/api/appointments", async (req, res) => {
     try {
+      // With a limit or cursor the agenda gets one filtered page; otherwise everything in range
+      if (req.query.limit !== undefined || req.query.cursor !== undefined) {
+        const search = appointmentSearchSchema.parse(req.query);
+        const after = search.cursor ? decodeCursor(search.cursor) : undefined;
+        if (search.cursor && !after) {
+          return res.status(400).json({ error: "Invalid cursor" });
+        }
+
+        // Stylists only get their own appointments, whatever staff filter they ask for
+        const ownStaffId = getOwnStaffScope(req);
+        if (ownStaffId === null) {
+          return res.json({ appointments: [], nextCursor: null } satisfies AppointmentPage);
+        }
+
+        // One extra row tells whether there is a next page
+        const rows = await storage.searchAppointments({
+          text: search.q || undefined,
+          statuses: search.status,
+          staffIds: ownStaffId !== undefined ? [ownStaffId] : search.staffId,
+          categoryColor: search.category,
+          start: search.start,
+          end: search.end,
+          after,
+        }, search.limit + 1);
+        const page = rows.slice(0, search.limit);
+        return res.json({
+          appointments: page,
+          nextCursor: rows.length > search.limit ? encodeCursor(page[page.length - 1]) : null,
+        } satisfies AppointmentPage);
+      }
+
+      // A stylist without a linked staff member has no appointments of their own
+      const ownStaffId = getOwnStaffScope(req);
+      if (ownStaffId === null) {
+        return res.json([]);
+      }
+
       const { start, end } = req.query;
       
+      let appointments: Appointment[];
       if (start && end) {
         const startDate = new Date(start as string);
         const endDate = new Date(end as string);
-        const appointments = await storage.getAppointmentsByDateRange(startDate, endDate);
-        res.json(appointments);
+        appointments = await storage.getAppointmentsByDateRange(startDate, endDate);
       } else {
-        const appointments = await storage.getAllAppointments();
-        res.json(appointments);
+        appointments = await storage.getAllAppointments();
       }
+
+      // Stylists only get their own appointments
+      res.json(ownStaffId === undefined ? appointments : appointments.filter(apt => apt.staffId === ownStaffId));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid search", details: error.errors });
+      }
       res.status(500).json({ error: "Failed to fetch appointments" });
     }
   });
 
-  app.post("/api/appointments", async (req, res) => {
+  app.post("/api/appointments", requireRole("admin", "receptionist"), async (req, res) => {
     try {
       const appointmentData = insertAppointmentSchema.parse(req.body);
       const appointment = await storage.createAppointment(appointmentData);
+      await auditService.record({
+        actor: auditService.actorFromRequest(req),
+        action: "created",
+        appointment,
+        after: appointment,
+        odooStatus: "local",
+      });
       res.json(appointment);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -93,15 +259,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/appointments/:id", async (req, res) => {
+  app.put("/api/appointments/:id", requireRole("admin", "receptionist"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = req.body;
+      const before = await storage.getAppointment(id);
       const appointment = await storage.updateAppointment(id, updates);
       
-      if (!appointment) {
+      if (!before || !appointment) {
         return res.status(404).json({ error: "Appointment not found" });
       }
+
+      // This route only changes the local copy; Odoo is not updated
+      await auditService.record({
+        actor: auditService.actorFromRequest(req),
+        action: appointment.status === "cancelled" && before.status !== "cancelled" ? "cancelled" : "updated",
+        appointment,
+        before,
+        after: appointment,
+        odooStatus: "local",
+      });
       
       res.json(appointment);
     } catch (error) {
@@ -109,7 +286,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/appointments/:id", async (req, res) => {
+  app.delete("/api/appointments/:id", requireRole("admin", "receptionist"), async (req, res) => {
     try {
       const { id } = req.params;
       
@@ -119,16 +296,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Appointment not found" });
       }
 
-      // Try to delete from Odoo first, but don't fail if it's not available
-      let odooSyncSuccess = false;
+      // Delete from Odoo first; if it's not available the delete is queued in the outbox
+      let odooPush = { synced: false, queued: false };
       if (appointment.odooEventId) {
-        try {
-          await odooService.deleteAppointment(appointment.odooEventId);
-          odooSyncSuccess = true;
-        } catch (odooError) {
-          console.warn("Odoo sync failed for deletion, deleting locally only:", odooError instanceof Error ? odooError.message : odooError);
-          // Continue with local deletion even if Odoo fails
-        }
+        odooPush = await outboxService.pushOrQueue({
+          operation: "delete",
+          odooEventId: appointment.odooEventId,
+          appointmentId: id,
+        });
       }
 
       // Delete from local storage
@@ -137,239 +312,417 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!deleted) {
         return res.status(404).json({ error: "Appointment not found" });
       }
+
+      await auditService.record({
+        actor: auditService.actorFromRequest(req),
+        action: "deleted",
+        appointment,
+        before: appointment,
+        odooStatus: appointment.odooEventId ? odooStatusFromPush(odooPush) : "local",
+      });
       
       res.json({ 
         success: true,
-        odooSynced: odooSyncSuccess
+        odooSynced: odooPush.synced,
+        odooQueued: odooPush.queued
       });
     } catch (error) {
       res.status(500).json({ error: "Failed to delete appointment" });
     }
   });
 
-  // Reschedule appointment (drag & drop)
-  app.put("/api/appointments/:id/reschedule", async (req, res) => {
+  // Cancel an appointment: it stays in the calendar with its reason, and the Odoo event is
+  // archived rather than unlinked so it can be restored. For a recurring appointment, scope
+  // "following" or "all" cancels the other occurrences too.
+  app.post("/api/appointments/:id/cancel", requireRole("admin", "receptionist"), async (req, res) => {
     try {
       const { id } = req.params;
-      const { startTime, endTime, staffId } = req.body;
-      
-      if (!startTime || !endTime) {
-        return res.status(400).json({ error: "Start time and end time are required" });
-      }
+      const { reason, scope } = z.object({
+        reason: z.enum(cancellationReasons),
+        scope: z.enum(seriesScopes).default("occurrence"),
+      }).parse(req.body);
 
       const appointment = await storage.getAppointment(id);
       if (!appointment) {
         return res.status(404).json({ error: "Appointment not found" });
       }
+      if (!cancellableStatuses.includes(appointment.status as typeof cancellableStatuses[number])) {
+        return res.status(409).json({ error: `A ${appointment.status} appointment can't be cancelled` });
+      }
 
-      // Determine which staff to check conflicts for (new staff if changing, otherwise current)
-      const targetStaffId = staffId || appointment.staffId;
+      // The other segments of each visit are cancelled with it
+      const targets = await visitService.withVisitSegments(
+        await recurrenceService.selectOccurrences(appointment, scope)
+      );
 
-      // Check for local conflicts - ensure no other appointment for target staff overlaps
-      if (targetStaffId) {
-        const allAppointments = await storage.getAllAppointments();
-        const newStart = new Date(startTime);
-        const newEnd = new Date(endTime);
-        
-        const hasConflict = allAppointments.some(apt => {
-          // Skip the appointment being moved
-          if (apt.id === id) return false;
-          // Only check target staff
-          if (apt.staffId !== targetStaffId) return false;
-          
-          const aptStart = new Date(apt.startTime);
-          const aptEnd = new Date(apt.endTime);
-          
-          // Check for any time overlap
-          return (newStart < aptEnd && newEnd > aptStart);
+      let cancelledAppointment: Appointment | undefined;
+      const odooPushes = [];
+      for (const target of targets) {
+        // Archive in Odoo; if it's not available the change is queued in the outbox
+        const odooPush = await outboxService.pushOrQueue({
+          operation: "update",
+          odooEventId: target.odooEventId,
+          appointmentId: target.id,
+          payload: { active: false },
         });
+        odooPushes.push(odooPush);
 
-        if (hasConflict) {
-          return res.status(409).json({ error: "This time slot is already occupied" });
-        }
+        const cancelled = await storage.updateAppointment(target.id, {
+          status: "cancelled",
+          cancellationReason: reason,
+          cancelledAt: new Date(),
+        });
+        await auditService.record({
+          actor: auditService.actorFromRequest(req),
+          action: "cancelled",
+          appointment: target,
+          before: target,
+          after: cancelled,
+          odooStatus: odooStatusFromPush(odooPush),
+        });
+        if (target.id === id) cancelledAppointment = cancelled;
       }
 
-      // Try to update in Odoo, but don't fail if it's not available
-      let odooSyncSuccess = false;
+      res.json({
+        ...cancelledAppointment,
+        odooSynced: odooPushes.every(push => push.synced),
+        odooQueued: odooPushes.some(push => push.queued),
+        affectedCount: odooPushes.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "A valid cancellation reason and scope are required", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to cancel appointment" });
+    }
+  });
+
+  // Lifecycle transitions: POST /api/appointments/:id/check-in, /start, /complete and /no-show.
+  // These only change the local appointment; Odoo's calendar has no equivalent state.
+  for (const transition of Object.keys(appointmentTransitions) as AppointmentTransition[]) {
+    app.post(`/api/appointments/:id/${transition}`, requireRole("admin", "receptionist"), async (req, res) => {
       try {
-        await odooService.updateAppointment(appointment.odooEventId, {
-          start: new Date(startTime).toISOString(),
-          stop: new Date(endTime).toISOString(),
+        const appointment = await storage.getAppointment(req.params.id);
+        if (!appointment) {
+          return res.status(404).json({ error: "Appointment not found" });
+        }
+        if (!lifecycleService.canTransition(appointment, transition)) {
+          return res.status(409).json({
+            error: `Can't ${transition} an appointment that is ${appointment.status}`,
+            status: appointment.status,
+            availableTransitions: getAvailableTransitions(appointment.status),
+          });
+        }
+
+        const updatedAppointment = await lifecycleService.apply(appointment, transition);
+        await auditService.record({
+          actor: auditService.actorFromRequest(req),
+          action: transition,
+          appointment,
+          before: appointment,
+          after: updatedAppointment,
+          odooStatus: "local",
         });
-        odooSyncSuccess = true;
-      } catch (odooError) {
-        console.warn("Odoo sync failed for rescheduling, updating locally only:", odooError instanceof Error ? odooError.message : odooError);
-        // Continue with local update even if Odoo fails
+
+        res.json(updatedAppointment);
+      } catch (error) {
+        res.status(500).json({ error: `Failed to ${transition} appointment` });
       }
+    });
+  }
 
-      // Update in local storage
-      const updateData: Partial<Appointment> = {
-        startTime: new Date(startTime),
-        endTime: new Date(endTime),
-      };
-      
-      // Update staff if provided
-      if (staffId) {
-        updateData.staffId = staffId;
+  // Undo a cancellation, provided the slot is still free. The cancelled segments of a
+  // visit are restored with it.
+  app.post("/api/appointments/:id/restore", requireRole("admin", "receptionist"), async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const appointment = await storage.getAppointment(id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (appointment.status !== "cancelled") {
+        return res.status(400).json({ error: "Appointment is not cancelled" });
+      }
+
+      const targets = await visitService.withVisitSegments([appointment], ["cancelled"]);
+      const slots = [];
+      for (const target of targets) {
+        const targetStaff = target.staffId ? await storage.getStaff(target.staffId) : undefined;
+        if (targetStaff) {
+          slots.push({
+            staff: targetStaff,
+            start: new Date(target.startTime),
+            end: new Date(target.endTime),
+            appointmentTypeId: target.odooAppointmentTypeId,
+            visitKey: target.visitId ?? undefined,
+          });
+        }
+      }
+      const conflicts = await availabilityService.checkSlots(slots, targets.map(target => target.id));
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "This time slot is not available", reasons: conflicts[0].reasons, conflicts });
       }
 
-      const updatedAppointment = await storage.updateAppointment(id, updateData);
+      let restoredAppointment: Appointment | undefined;
+      const odooPushes = [];
+      for (const target of targets) {
+        // Unarchive in Odoo; if it's not available the change is queued in the outbox
+        const odooPush = await outboxService.pushOrQueue({
+          operation: "update",
+          odooEventId: target.odooEventId,
+          appointmentId: target.id,
+          payload: { active: true },
+        });
+        odooPushes.push(odooPush);
+
+        const restored = await storage.updateAppointment(target.id, {
+          status: "confirmed",
+          cancellationReason: null,
+          cancelledAt: null,
+        });
+        await auditService.record({
+          actor: auditService.actorFromRequest(req),
+          action: "restored",
+          appointment: target,
+          before: target,
+          after: restored,
+          odooStatus: odooStatusFromPush(odooPush),
+        });
+        if (target.id === id) restoredAppointment = restored;
+      }
 
       res.json({
-        ...updatedAppointment,
-        odooSynced: odooSyncSuccess
+        ...restoredAppointment,
+        odooSynced: odooPushes.every(push => push.synced),
+        odooQueued: odooPushes.some(push => push.queued),
+        affectedCount: odooPushes.length,
       });
     } catch (error) {
-      res.status(500).json({ error: "Failed to reschedule appointment" });
+      res.status(500).json({ error: "Failed to restore appointment" });
     }
   });
 
-  // Odoo sync routes
-  let isSyncing = false; // Prevent concurrent syncs
-  
-  app.post("/api/sync/odoo", async (req, res) => {
-    // Check if sync is already in progress
-    if (isSyncing) {
-      return res.status(429).json({ 
-        error: "Sync already in progress",
-        message: "Please wait for the current sync to complete"
-      });
+  // Change history of an appointment, newest first
+  app.get("/api/appointments/:id/history", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      // Stylists may only see the history of their own appointments. The appointment may
+      // already be deleted, in which case its last logged staff member decides.
+      const ownStaffId = getOwnStaffScope(req);
+      const entries = await auditService.getHistory(id);
+      const history: AppointmentHistoryEntry[] = entries.map(entry => ({
+        ...entry,
+        before: entry.before ? JSON.parse(entry.before) : null,
+        after: entry.after ? JSON.parse(entry.after) : null,
+      }));
+
+      if (ownStaffId !== undefined) {
+        const appointment = await storage.getAppointment(id);
+        const latest = history[0];
+        const staffId = appointment?.staffId ?? latest?.after?.staffId ?? latest?.before?.staffId;
+        if (staffId !== ownStaffId) {
+          return res.status(404).json({ error: "Appointment not found" });
+        }
+      }
+
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch appointment history" });
     }
-    
-    isSyncing = true;
-    
+  });
+
+  // Reschedule appointment (drag & drop). For a recurring appointment, scope "following"
+  // or "all" shifts the other occurrences by the same amount. The other segments of a visit
+  // move along, keeping their own length and staff member.
+  app.put("/api/appointments/:id/reschedule", requireRole("admin", "receptionist"), async (req, res) => {
     try {
-      const { start, end } = req.body;
-      // Default: 30 days back, 90 days forward to capture past and future appointments
-      const defaultStart = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-      const defaultEnd = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000);
+      const { id } = req.params;
+      const { startTime, endTime, staffId } = req.body;
       
-      const startDate = start ? new Date(start).toISOString() : defaultStart.toISOString();
-      const endDate = end ? new Date(end).toISOString() : defaultEnd.toISOString();
+      if (!startTime || !endTime) {
+        return res.status(400).json({ error: "Start time and end time are required" });
+      }
+      const scope = z.enum(seriesScopes).default("occurrence").parse(req.body.scope);
 
-      // Fetch resources (employees) from Odoo
-      const odooResources = await odooService.fetchResources();
-      
-      // Sync staff members based on resources
-      for (const resource of odooResources) {
-        const existingStaff = await storage.getStaffByOdooUserId(resource.id);
-        
-        // Fetch working hours from resource calendar if available
-        let workingHours = null;
-        let resourceCalendarId = null;
-        
-        if (resource.resource_calendar_id && Array.isArray(resource.resource_calendar_id)) {
-          resourceCalendarId = resource.resource_calendar_id[0];
-          try {
-            const calendar = await odooService.fetchResourceCalendar(resourceCalendarId);
-            if (calendar && calendar.attendances) {
-              // Convert Odoo attendances to a simplified format
-              workingHours = calendar.attendances.map((att: any) => ({
-                dayOfWeek: parseInt(att.dayofweek), // 0=Monday, 6=Sunday in Odoo
-                hourFrom: att.hour_from,
-                hourTo: att.hour_to,
-                dayPeriod: att.day_period,
-                name: att.name
-              }));
-            }
-          } catch (calendarError) {
-            console.warn(`Failed to fetch calendar for resource ${resource.id}:`, calendarError);
+      const appointment = await storage.getAppointment(id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (appointment.status === "cancelled") {
+        return res.status(400).json({ error: "Restore the appointment before rescheduling it" });
+      }
+
+      const newStart = new Date(startTime);
+      const newEnd = new Date(endTime);
+      // Shifts are on the salon's wall clock, so occurrences across a DST change keep their time of day
+      const shift = salonShift(new Date(appointment.startTime), newStart);
+      const endShift = salonShift(new Date(appointment.endTime), newEnd);
+      const durationMs = newEnd.getTime() - newStart.getTime();
+      const occurrences = await recurrenceService.selectOccurrences(appointment, scope);
+      const resized = new Set(occurrences.map(occurrence => occurrence.id));
+      const targets = await visitService.withVisitSegments(occurrences);
+      // Segments after the changed one in its visit follow its end, so a resize keeps the
+      // visit back to back; earlier ones follow its start
+      const changedSegmentByVisit = new Map(occurrences.flatMap(occurrence =>
+        occurrence.visitId ? [[occurrence.visitId, occurrence.visitSegment ?? 0] as const] : []
+      ));
+
+      // Validate each occurrence against its target staff (new staff if changing, otherwise current)
+      const staffById = new Map<string, Staff>();
+      const moves: { appointment: Appointment; start: Date; end: Date; staff?: Staff; staffChanged: boolean }[] = [];
+      for (const target of targets) {
+        const changedSegment = target.visitId ? changedSegmentByVisit.get(target.visitId) : undefined;
+        const followsEnd = !resized.has(target.id) && changedSegment !== undefined && (target.visitSegment ?? 0) > changedSegment;
+        const start = target.id === id ? newStart : shiftSalonTime(new Date(target.startTime), followsEnd ? endShift : shift);
+        const ownDurationMs = new Date(target.endTime).getTime() - new Date(target.startTime).getTime();
+        const staffChanged = Boolean(staffId) && resized.has(target.id);
+        const targetStaffId = staffChanged ? staffId : target.staffId;
+        let targetStaff: Staff | undefined;
+        if (targetStaffId) {
+          targetStaff = staffById.get(targetStaffId) ?? await storage.getStaff(targetStaffId);
+          if (!targetStaff) {
+            return res.status(400).json({ error: "Staff member not found" });
           }
+          staffById.set(targetStaffId, targetStaff);
         }
-        
-        const staffData = {
-          odooUserId: resource.id,
-          name: resource.name,
-          email: resource.employee_id ? `${resource.name.toLowerCase().replace(/\s+/g, '.')}@salon.com` : "",
-          role: "Stylist",
-          color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
-          isActive: true,
-          resourceCalendarId,
-          workingHours: workingHours ? JSON.stringify(workingHours) : null,
-        };
-        
-        if (!existingStaff) {
-          await storage.createStaff(staffData);
-        } else {
-          // Update working hours if they've changed
-          await storage.updateStaff(existingStaff.id, {
-            resourceCalendarId,
-            workingHours: workingHours ? JSON.stringify(workingHours) : existingStaff.workingHours,
-          });
-        }
+        moves.push({
+          appointment: target,
+          start,
+          end: new Date(start.getTime() + (resized.has(target.id) ? durationMs : ownDurationMs)),
+          staff: targetStaff,
+          staffChanged,
+        });
       }
 
-      // Fetch appointments from Odoo
-      const odooAppointments = await odooService.fetchAppointments(startDate, endDate);
+      const conflicts = await availabilityService.checkSlots(
+        moves.flatMap(move => move.staff
+          ? [{
+              staff: move.staff,
+              start: move.start,
+              end: move.end,
+              appointmentTypeId: move.appointment.odooAppointmentTypeId,
+              visitKey: move.appointment.visitId ?? undefined,
+            }]
+          : []),
+        targets.map(target => target.id)
+      );
+      if (conflicts.length > 0) {
+        return res.status(409).json({ error: "This time slot is not available", reasons: conflicts[0].reasons, conflicts });
+      }
 
-      // Sync appointments
-      const syncedCount = { created: 0, updated: 0 };
-      
-      for (const odooApp of odooAppointments) {
-        const existingAppointment = await storage.getAppointmentByOdooEventId(odooApp.id);
-        
-        // Get staff using appointment_resource_id
-        let staff = null;
-        if (odooApp.appointment_resource_id && Array.isArray(odooApp.appointment_resource_id)) {
-          staff = await storage.getStaffByOdooUserId(odooApp.appointment_resource_id[0]);
-        }
+      // Each occurrence is its own Odoo event and is written separately, so a move of one
+      // occurrence never rewrites the rest of the series in Odoo
+      let updatedAppointment: Appointment | undefined;
+      const odooPushes = [];
+      for (const move of moves) {
+        // Update in Odoo; if it's not available the change is queued in the outbox
+        const odooPush = await outboxService.pushOrQueue({
+          operation: "update",
+          odooEventId: move.appointment.odooEventId,
+          appointmentId: move.appointment.id,
+          payload: {
+            start: move.start.toISOString(),
+            stop: move.end.toISOString(),
+          },
+        });
+        odooPushes.push(odooPush);
 
-        // Get customer name from partner_ids or partner_id
-        let customerName = "Unknown Customer";
-        if (odooApp.partner_ids && odooApp.partner_ids.length > 0) {
-          // We have partner IDs but need to fetch the name separately
-          // For now, use a fallback or the appointment name
-          customerName = odooApp.name.split(' - ')[0] || odooApp.name;
-        } else if (Array.isArray(odooApp.partner_id)) {
-          customerName = odooApp.partner_id[1];
+        // Update in local storage
+        const updateData: Partial<Appointment> = {
+          startTime: move.start,
+          endTime: move.end,
+          duration: Math.round((move.end.getTime() - move.start.getTime()) / (60 * 1000)),
+        };
+        
+        // Update staff if provided
+        if (move.staffChanged) {
+          updateData.staffId = staffId;
         }
 
-        const appointmentData = {
-          odooEventId: odooApp.id,
-          name: odooApp.name || "Untitled Appointment",
-          customerName: customerName,
-          customerEmail: "",
-          customerPhone: "",
-          service: odooApp.appointment_type_id && Array.isArray(odooApp.appointment_type_id) 
-            ? odooApp.appointment_type_id[1] 
-            : odooApp.name || "General Service",
-          startTime: new Date(odooApp.start),
-          endTime: new Date(odooApp.stop),
-          duration: odooApp.duration ? odooApp.duration * 60 : 60, // Convert hours to minutes
-          staffId: staff?.id,
-          status: "confirmed",
-          notes: odooApp.description || "",
-          categoryColor: odooApp.categoryColor || null,
-        };
+        const updated = await storage.updateAppointment(move.appointment.id, updateData);
+        await auditService.record({
+          actor: auditService.actorFromRequest(req),
+          action: "rescheduled",
+          appointment: move.appointment,
+          before: move.appointment,
+          after: updated,
+          odooStatus: odooStatusFromPush(odooPush),
+        });
+        if (move.appointment.id === id) updatedAppointment = updated;
+      }
 
-        if (existingAppointment) {
-          await storage.updateAppointment(existingAppointment.id, appointmentData);
-          syncedCount.updated++;
-        } else {
-          await storage.createAppointment(appointmentData);
-          syncedCount.created++;
-        }
+      res.json({
+        ...updatedAppointment,
+        odooSynced: odooPushes.every(push => push.synced),
+        odooQueued: odooPushes.some(push => push.queued),
+        affectedCount: moves.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid scope", details: error.errors });
       }
+      res.status(500).json({ error: "Failed to reschedule appointment" });
+    }
+  });
 
-      // Update last sync time
-      await storage.updateCalendarSettings({
-        lastOdooSync: new Date(),
+  // Odoo sync routes
+  app.post("/api/sync/odoo", requireRole("admin", "receptionist"), async (req, res) => {
+    // Check if sync is already in progress (manual or scheduled)
+    if (syncService.isRunning) {
+      return res.status(429).json({ 
+        error: "Sync already in progress",
+        message: "Please wait for the current sync to complete"
       });
+    }
+    
+    try {
+      const { start, end, full } = req.body;
+      const result = await syncService.run({ start, end, full, trigger: "manual" });
 
       res.json({
         success: true,
-        synced: syncedCount,
-        totalOdooAppointments: odooAppointments.length,
+        ...result,
       });
 
     } catch (error) {
-      console.error("Odoo sync failed:", error);
       res.status(500).json({ 
         error: "Failed to sync with Odoo",
         details: error instanceof Error ? error.message : "Unknown error"
       });
-    } finally {
-      isSyncing = false; // Release the sync lock
+    }
+  });
+
+  app.get("/api/sync/runs", async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+      const runs = await storage.getSyncRuns(limit);
+      res.json({
+        isRunning: syncService.isRunning,
+        runs,
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sync runs" });
+    }
+  });
+
+  // Odoo writes waiting for a retry, and the ones given up on
+  app.get("/api/outbox", requireRole("admin", "receptionist"), async (req, res) => {
+    try {
+      const items = await outboxService.getItems();
+      res.json(items);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch outbox" });
+    }
+  });
+
+  app.post("/api/outbox/retry", requireRole("admin", "receptionist"), async (req, res) => {
+    try {
+      const result = await outboxService.drain({ force: true });
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to retry outbox" });
     }
   });
 
@@ -384,6 +737,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Buffer and processing times per appointment type
+  app.get("/api/appointment-type-timings", async (req, res) => {
+    try {
+      const timings = await storage.getAppointmentTypeTimings();
+      res.json(timings);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch appointment type timings" });
+    }
+  });
+
+  app.put("/api/appointment-type-timings/:typeId", requireRole("admin"), async (req, res) => {
+    try {
+      const timing = insertAppointmentTypeTimingSchema.parse({
+        ...req.body,
+        odooAppointmentTypeId: Number(req.params.typeId),
+      });
+
+      const appointmentTypes = await odooService.fetchAppointmentTypes();
+      const appointmentType = appointmentTypes.find(type => type.id === timing.odooAppointmentTypeId);
+      if (!appointmentType) {
+        return res.status(404).json({ error: "Appointment type not found" });
+      }
+      // appointment_duration is in hours
+      const durationMinutes = Math.round((appointmentType.appointment_duration || 0) * 60);
+      if (timing.processingMinutes > 0 && timing.processingOffsetMinutes + timing.processingMinutes > durationMinutes) {
+        return res.status(400).json({ error: `The processing time must fall within the ${durationMinutes} minutes of the service` });
+      }
+
+      res.json(await storage.upsertAppointmentTypeTiming(timing));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid appointment type timing", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update appointment type timing" });
+    }
+  });
+
   // Appointment categories route
   app.get("/api/appointment-categories", async (req, res) => {
     try {
@@ -396,7 +786,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update category colors route
-  app.post("/api/appointment-categories/randomize-colors", async (req, res) => {
+  app.post("/api/appointment-categories/randomize-colors", requireRole("admin"), async (req, res) => {
     try {
       const result = await odooService.assignRandomColorsToCategories();
       res.json(result);
@@ -410,7 +800,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Partners route
-  app.get("/api/partners", async (req, res) => {
+  app.get("/api/partners", requireRole("admin", "receptionist"), async (req, res) => {
     try {
       const { search } = req.query;
       const partners = await odooService.fetchPartners(search as string | undefined);
@@ -421,8 +811,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Book appointment route
-  app.post("/api/appointments/book", async (req, res) => {
+  // Next available slots for a set of services, e.g. for receptionists on the phone
+  app.get("/api/availability", async (req, res) => {
+    try {
+      const { appointmentTypeIds, staffId, start, end } = req.query;
+      const limit = Math.min(parseInt(req.query.limit as string) || 10, 200);
+      const perStaff = req.query.perStaff === "true";
+
+      const typeIds = String(appointmentTypeIds || "")
+        .split(",")
+        .filter(id => id.trim() !== "")
+        .map(Number);
+      if (typeIds.length === 0 || typeIds.some(isNaN)) {
+        return res.status(400).json({ error: "At least one appointment type id is required" });
+      }
+
+      const from = start ? new Date(start as string) : new Date();
+      const to = end ? new Date(end as string) : new Date(from.getTime() + 14 * 24 * 60 * 60 * 1000);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+        return res.status(400).json({ error: "Invalid date range" });
+      }
+      if (to.getTime() - from.getTime() > MAX_AVAILABILITY_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ error: `Date range can span at most ${MAX_AVAILABILITY_DAYS} days` });
+      }
+
+      const appointmentTypes = await odooService.fetchAppointmentTypes();
+      const selectedTypes: OdooAppointmentType[] = [];
+      for (const id of typeIds) {
+        const appointmentType = appointmentTypes.find(type => type.id === id);
+        if (!appointmentType) {
+          return res.status(400).json({ error: "Unknown appointment type" });
+        }
+        selectedTypes.push(appointmentType);
+      }
+
+      // Total duration of all services; appointment_duration is in hours
+      const durationMinutes = Math.round(
+        selectedTypes.reduce((total, type) => total + (type.appointment_duration || 0), 0) * 60
+      );
+      if (durationMinutes <= 0) {
+        return res.status(400).json({ error: "Selected appointment types have no duration" });
+      }
+
+      // Only staff who can perform every selected service (no resource_ids means anyone)
+      const allStaff = await storage.getAllStaff();
+      const ownStaffId = getOwnStaffScope(req);
+      const eligibleStaff = allStaff.filter(member =>
+        member.isActive &&
+        (ownStaffId === undefined || member.id === ownStaffId) &&
+        selectedTypes.every(type =>
+          !type.resource_ids || type.resource_ids.length === 0 || type.resource_ids.includes(member.odooUserId)
+        )
+      );
+
+      const slots = await availabilityService.findSlots({
+        staff: eligibleStaff,
+        durationMinutes,
+        from,
+        to,
+        preferredStaffId: staffId ? String(staffId) : undefined,
+        limit,
+        perStaff,
+        appointmentTypes: selectedTypes.map(type => ({
+          id: type.id,
+          durationMinutes: Math.round((type.appointment_duration || 0) * 60),
+        })),
+      });
+
+      // The limit is echoed so the client can tell whether it was per staff member or overall
+      res.json({ durationMinutes, limit, perStaff, slots });
+    } catch (error) {
+      console.error("Failed to search availability:", error);
+      res.status(500).json({ error: "Failed to search availability" });
+    }
+  });
+
+  // Book appointment route. The selected services are booked back to back as segments of
+  // one visit, each its own Odoo event with its own type, duration and staff member.
+  app.post("/api/appointments/book", requireRole("admin", "receptionist"), async (req, res) => {
     try {
       const { 
         customerName, 
@@ -430,42 +896,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         customerPhone, 
         appointmentTypeIds, 
         startTime,
-        endTime,
         staffId,
         partnerId 
       } = req.body;
+      const recurrence = recurrenceRuleSchema.optional().parse(req.body.recurrence ?? undefined);
+
+      // Without explicit segments every selected service goes to the same staff member
+      const requestedSegments = z.array(bookingSegmentSchema).min(1).optional().parse(req.body.segments ?? undefined)
+        ?? (Array.isArray(appointmentTypeIds)
+          ? appointmentTypeIds.map((appointmentTypeId: number) => ({ appointmentTypeId, staffId }))
+          : []);
 
-      if (!customerName || !appointmentTypeIds || !Array.isArray(appointmentTypeIds) || appointmentTypeIds.length === 0) {
+      if (!customerName || requestedSegments.length === 0) {
         return res.status(400).json({ error: "Missing required fields" });
       }
 
-      if (!startTime || !endTime) {
-        return res.status(400).json({ error: "Start time and end time are required" });
+      if (!startTime) {
+        return res.status(400).json({ error: "Start time is required" });
       }
 
-      // Look up the staff member to get their Odoo resource ID
-      const staffMember = await storage.getStaff(staffId);
-      if (!staffMember) {
-        return res.status(400).json({ error: "Staff member not found" });
+      // Resolve each segment's service and staff member (for their Odoo resource ID)
+      const appointmentTypes = await odooService.fetchAppointmentTypes();
+      const staffById = new Map<string, Staff>();
+      const resolvedSegments: { appointmentType: OdooAppointmentType; staff: Staff }[] = [];
+      for (const segment of requestedSegments) {
+        const appointmentType = appointmentTypes.find(type => type.id === segment.appointmentTypeId);
+        if (!appointmentType) {
+          return res.status(400).json({ error: "Unknown appointment type" });
+        }
+        if (!appointmentType.appointment_duration) {
+          return res.status(400).json({ error: `${appointmentType.name} has no duration` });
+        }
+        const segmentStaff = staffById.get(segment.staffId) ?? await storage.getStaff(segment.staffId);
+        if (!segmentStaff) {
+          return res.status(400).json({ error: "Staff member not found" });
+        }
+        staffById.set(segment.staffId, segmentStaff);
+        if (!visitService.canPerform(segmentStaff, appointmentType)) {
+          return res.status(400).json({ error: `${segmentStaff.name} doesn't perform ${appointmentType.name}` });
+        }
+        resolvedSegments.push({ appointmentType, staff: segmentStaff });
       }
 
-      // Fetch appointment types to get service names
-      const appointmentTypes = await odooService.fetchAppointmentTypes();
-      
-      // Build combined service name from all selected types
-      const selectedServices = appointmentTypeIds
-        .map(typeId => {
-          const type = appointmentTypes.find(t => t.id === typeId);
-          return type ? type.name : null;
-        })
-        .filter(name => name !== null);
+      const start = new Date(startTime);
+      const plan = visitService.planSegments(start, resolvedSegments);
+      const end = plan[plan.length - 1].end;
 
-      const combinedServiceName = selectedServices.join(" + ");
+      // A recurring booking is checked for every occurrence, and refused as a whole when
+      // any of them can't be booked, before anything is written to Odoo
+      const occurrences = recurrence
+        ? recurrenceService.expand(start, end, recurrence)
+        : [{ start, end }];
+      if (occurrences.length > MAX_OCCURRENCES) {
+        return res.status(400).json({ error: `A series can have at most ${MAX_OCCURRENCES} occurrences` });
+      }
 
-      // Calculate total duration in minutes
-      const start = new Date(startTime);
-      const end = new Date(endTime);
-      const durationMinutes = Math.round((end.getTime() - start.getTime()) / (1000 * 60));
+      // Each segment is checked against its own staff member, at its offset into the visit,
+      // and against the other segments and occurrences of the booking
+      const segmentSlots = (occurrenceStart: Date) => plan.map(segment => ({
+        staff: segment.staff,
+        appointmentTypeId: segment.appointmentType.id,
+        visitKey: occurrenceStart.toISOString(),
+        start: new Date(occurrenceStart.getTime() + (segment.start.getTime() - start.getTime())),
+        end: new Date(occurrenceStart.getTime() + (segment.end.getTime() - start.getTime())),
+      }));
+      const conflicts = await availabilityService.checkSlots(
+        occurrences.flatMap(occurrence => segmentSlots(occurrence.start))
+      );
+      if (conflicts.length > 0) {
+        return res.status(409).json({
+          error: recurrence ? "Some occurrences are not available" : "This time slot is not available",
+          reasons: conflicts[0].reasons,
+          conflicts,
+        });
+      }
 
       // Find or create partner in Odoo
       const odooPartnerId = await odooService.findOrCreatePartner({
@@ -475,51 +979,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
         partnerId: partnerId
       });
 
-      // Create a SINGLE appointment in Odoo with the first appointment type
-      // (Odoo requires an appointment_type_id, so we use the first one)
-      const odooEvent = await odooService.createAppointment({
-        customerName,
-        customerEmail,
-        customerPhone,
-        appointmentTypeId: appointmentTypeIds[0], // Use first type for Odoo
-        startTime: startTime,
-        endTime: endTime,
-        staffId: staffMember.odooUserId.toString(),
-      });
-
-      // Create sales order in Odoo for the customer
+      // One Odoo event per segment. Odoo generates the other occurrences of a series
+      // itself; pick them up so each gets a local appointment.
+      const recurrenceRule = recurrence ? recurrenceService.toRRule(start, recurrence) : null;
+      const segmentEvents: Awaited<ReturnType<typeof odooService.fetchRecurrenceEvents>>[] = [];
       try {
-        const salesOrderId = await odooService.createSalesOrder({
+        for (const segment of plan) {
+          const odooEvent = await odooService.createAppointment({
+            customerName,
+            customerEmail,
+            customerPhone,
+            appointmentTypeId: segment.appointmentType.id,
+            startTime: segment.start.toISOString(),
+            endTime: segment.end.toISOString(),
+            staffId: segment.staff.odooUserId.toString(),
+            partnerId: odooPartnerId,
+            recurrence: recurrence ? recurrenceService.toOdooFields(segment.start, recurrence) : undefined,
+          });
+          // Kept before the series is read, so the event is removed too if that fails
+          segmentEvents.push([{ id: odooEvent.id, start: odooEvent.start, stop: odooEvent.stop, recurrence_id: false }]);
+          if (recurrence) {
+            segmentEvents[segmentEvents.length - 1] = await odooService.fetchRecurrenceEvents(odooEvent.id);
+          }
+        }
+      } catch (error) {
+        // A visit is booked whole or not at all: remove the segments already in Odoo
+        for (const event of segmentEvents.flat()) {
+          await odooService.deleteAppointment(event.id).catch(unlinkError =>
+            console.error(`[Booking] Failed to remove Odoo event ${event.id} of a failed booking:`, unlinkError)
+          );
+        }
+        throw error;
+      }
+
+      // Create sales order in Odoo for the customer; on failure it is queued in the
+      // outbox and the booking continues. A visit gets one order with every service, on
+      // its first segment, and a series gets one order, on its first occurrence.
+      const salesOrderPush = await outboxService.pushOrQueue({
+        operation: "create_sales_order",
+        odooEventId: segmentEvents[0][0].id,
+        payload: {
           partnerId: odooPartnerId,
-          appointmentTypeIds: appointmentTypeIds,
-          calendarEventId: odooEvent.id
-        });
-        console.log(`[Booking] Created sales order ${salesOrderId} for appointment ${odooEvent.id}`);
-      } catch (salesOrderError) {
-        console.error("[Booking] Failed to create sales order:", salesOrderError);
-        // Continue with appointment creation even if sales order fails
-        console.warn("[Booking] Continuing with appointment creation despite sales order failure");
-      }
-
-      // Store a SINGLE appointment locally with combined service name
-      const localAppointment = await storage.createAppointment({
-        odooEventId: odooEvent.id,
-        name: `${customerName} - ${combinedServiceName}`,
-        customerName,
-        customerEmail: customerEmail || null,
-        customerPhone: customerPhone || null,
-        service: combinedServiceName,
-        startTime: start,
-        endTime: end,
-        duration: durationMinutes,
-        staffId,
-        status: "confirmed",
-        price: null,
-        notes: `Services: ${combinedServiceName}`,
+          appointmentTypeIds: plan.map(segment => segment.appointmentType.id),
+        },
       });
+      if (salesOrderPush.synced) {
+        console.log(`[Booking] Created sales order for appointment ${segmentEvents[0][0].id}`);
+      }
+
+      // Store one appointment per segment and occurrence, at the times Odoo gave each event.
+      // The segments of an occurrence share a visit id; a single service isn't a visit.
+      const visitServices = plan.map(segment => segment.appointmentType.name).join(" + ");
+      const visitIds: string[] = [];
+      const localAppointments: Appointment[] = [];
+      for (let segmentIndex = 0; segmentIndex < plan.length; segmentIndex++) {
+        const segment = plan[segmentIndex];
+        const events = segmentEvents[segmentIndex];
+        for (let index = 0; index < events.length; index++) {
+          const event = events[index];
+          const visitId = plan.length > 1 ? (visitIds[index] ??= randomUUID()) : null;
+
+          const localAppointment = await storage.createAppointment({
+            odooEventId: event.id,
+            name: `${customerName} - ${segment.appointmentType.name}`,
+            customerName,
+            customerEmail: customerEmail || null,
+            customerPhone: customerPhone || null,
+            odooPartnerId,
+            service: segment.appointmentType.name,
+            startTime: parseOdooDatetime(event.start),
+            endTime: parseOdooDatetime(event.stop),
+            duration: segment.durationMinutes,
+            staffId: segment.staff.id,
+            status: "confirmed",
+            price: null,
+            notes: `Services: ${visitServices}`,
+            odooRecurrenceId: Array.isArray(event.recurrence_id) ? event.recurrence_id[0] : null,
+            recurrenceRule,
+            visitId,
+            visitSegment: visitId ? segmentIndex : null,
+            odooAppointmentTypeId: segment.appointmentType.id,
+          });
+          localAppointments.push(localAppointment);
+
+          // The event was created in Odoo directly above, so the booking is always in sync
+          await auditService.record({
+            actor: auditService.actorFromRequest(req),
+            action: "booked",
+            appointment: localAppointment,
+            after: localAppointment,
+            odooStatus: "synced",
+          });
+        }
+      }
 
-      res.json(localAppointment);
+      res.json({
+        ...localAppointments[0],
+        occurrenceCount: segmentEvents[0].length,
+        segmentCount: plan.length,
+      });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid booking", details: error.errors });
+      }
       console.error("Failed to book appointment:", error);
       res.status(500).json({ error: "Failed to book appointment" });
     }
@@ -535,7 +1097,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/settings", async (req, res) => {
+  app.put("/api/settings", requireRole("admin"), async (req, res) => {
     try {
       const updates = req.body;
       const settings = await storage.updateCalendarSettings(updates);
@@ -545,6 +1107,89 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Appointments migrated from another tool's .ics export: the preview shows what would be
+  // created and what conflicts, then the picked rows are created through Odoo
+  app.post("/api/import/ics/preview", requireRole("admin"), async (req, res) => {
+    try {
+      const preview = await icsImportService.preview(icsImportSchema.parse(req.body));
+      res.json(preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import", details: error.errors });
+      }
+      if (error instanceof IcsImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Failed to preview ICS import:", error);
+      res.status(500).json({ error: "Failed to read ICS file" });
+    }
+  });
+
+  app.post("/api/import/ics", requireRole("admin"), async (req, res) => {
+    try {
+      const result = await icsImportService.run(
+        icsImportSchema.parse(req.body),
+        auditService.actorFromRequest(req),
+      );
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid import", details: error.errors });
+      }
+      if (error instanceof IcsImportError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Failed to import ICS file:", error);
+      res.status(500).json({ error: "Failed to import ICS file" });
+    }
+  });
+
+  // Calendar feed management. Feed URLs give access to appointments without logging in,
+  // so only admins can see, create or revoke them.
+  app.get("/api/feeds", requireRole("admin"), async (req, res) => {
+    try {
+      const feeds = await storage.getCalendarFeeds();
+      res.json(feeds);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch calendar feeds" });
+    }
+  });
+
+  app.post("/api/feeds", requireRole("admin"), async (req, res) => {
+    try {
+      const { staffId } = insertCalendarFeedSchema
+        .pick({ staffId: true })
+        .parse({ staffId: req.body?.staffId ?? null });
+      if (staffId && !(await storage.getStaff(staffId))) {
+        return res.status(400).json({ error: "Staff member not found" });
+      }
+
+      const feed = await storage.createCalendarFeed({
+        token: randomBytes(24).toString("base64url"),
+        staffId,
+        createdBy: req.user!.username,
+      });
+      res.json(feed);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid feed", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete("/api/feeds/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteCalendarFeed(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Feed not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to revoke calendar feed" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,78 @@
+import type { Request } from "express";
+import { storage } from "../storage";
+import type { Appointment, AppointmentAuditEntry, AppointmentTransition, AuditedAppointmentFields } from "@shared/schema";
+import type { PushResult } from "./outbox";
+
+export type AuditAction =
+  | "created" | "booked" | "imported" | "updated" | "rescheduled" | "cancelled" | "restored" | "deleted"
+  | AppointmentTransition;
+
+// Whether the change reached Odoo: pushed, waiting in the outbox, never sent (local-only
+// edits), or pulled from Odoo by the sync
+export type AuditOdooStatus = "synced" | "queued" | "local" | "odoo";
+
+export interface AuditActor {
+  userId: string | null;
+  name: string;
+}
+
+export const ODOO_ACTOR: AuditActor = { userId: null, name: "Odoo" };
+
+export interface AuditRecord {
+  actor: AuditActor;
+  action: AuditAction;
+  appointment: Appointment;
+  before?: Appointment | null;
+  after?: Appointment | null;
+  odooStatus: AuditOdooStatus;
+}
+
+function pickAuditedFields(appointment: Appointment): AuditedAppointmentFields {
+  return {
+    startTime: new Date(appointment.startTime).toISOString(),
+    endTime: new Date(appointment.endTime).toISOString(),
+    staffId: appointment.staffId ?? null,
+    status: appointment.status,
+  };
+}
+
+export function odooStatusFromPush(push: PushResult): AuditOdooStatus {
+  return push.synced ? "synced" : push.queued ? "queued" : "local";
+}
+
+export class AuditService {
+  actorFromRequest(req: Request): AuditActor {
+    return req.user
+      ? { userId: req.user.id, name: req.user.username }
+      : { userId: null, name: "Unknown" };
+  }
+
+  // True when any audited field differs, so syncs don't log no-op updates
+  hasAuditedChanges(before: Appointment, after: Appointment): boolean {
+    return JSON.stringify(pickAuditedFields(before)) !== JSON.stringify(pickAuditedFields(after));
+  }
+
+  // Never throws: a failed audit write is logged rather than failing the change itself
+  async record({ actor, action, appointment, before, after, odooStatus }: AuditRecord): Promise<void> {
+    try {
+      await storage.createAuditEntry({
+        appointmentId: appointment.id,
+        odooEventId: appointment.odooEventId,
+        action,
+        actorUserId: actor.userId,
+        actorName: actor.name,
+        before: before ? JSON.stringify(pickAuditedFields(before)) : null,
+        after: after ? JSON.stringify(pickAuditedFields(after)) : null,
+        odooStatus,
+      });
+    } catch (error) {
+      console.error(`[Audit] Failed to record ${action} of appointment ${appointment.id}:`, error);
+    }
+  }
+
+  async getHistory(appointmentId: string): Promise<AppointmentAuditEntry[]> {
+    return storage.getAuditEntries(appointmentId);
+  }
+}
+
+export const auditService = new AuditService();
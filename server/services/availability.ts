@@ -0,0 +1,450 @@
+import { storage } from "../storage";
+import { salonParts, salonTime } from "../timezone";
+import type {
+  Appointment,
+  AppointmentTypeTiming,
+  AvailabilityReason,
+  AvailabilityResult,
+  AvailableSlot,
+  CalendarSettings,
+  OccurrenceConflict,
+  Staff,
+  StaffLeave,
+  WorkingHoursPeriod,
+} from "@shared/schema";
+
+export interface SlotRequest {
+  staff: Staff;
+  start: Date;
+  end: Date;
+  // The appointment being moved, so it doesn't conflict with itself
+  excludeAppointmentId?: string;
+  // Odoo appointment type of the service, for its buffer and processing times
+  appointmentTypeId?: number | null;
+  // Slots checked together with the same key are segments of one visit: performed back
+  // to back, so their buffers don't count against each other
+  visitKey?: string;
+  // How a later slot of the same check refers to this one when they clash
+  description?: string;
+}
+
+export interface SlotSearch {
+  // Staff members who can perform the requested services
+  staff: Staff[];
+  durationMinutes: number;
+  from: Date;
+  to: Date;
+  preferredStaffId?: string;
+  limit?: number;
+  // Apply the limit to each staff member instead of the whole result, e.g. for every
+  // free start of a day per stylist
+  perStaff?: boolean;
+  // The services in the order they're performed, for their buffer and processing times
+  appointmentTypes?: { id: number; durationMinutes: number }[];
+}
+
+// How long a staff member is taken up around and during an appointment
+export interface SlotTiming {
+  preBufferMinutes: number;
+  postBufferMinutes: number;
+  // Stretches inside the appointment, in minutes from its start, when the stylist is free
+  freeGaps: { offsetMinutes: number; minutes: number }[];
+}
+
+interface Interval {
+  start: Date;
+  end: Date;
+}
+
+// Everything a slot is checked against, loaded once per check
+interface EvaluationContext {
+  settings: CalendarSettings | undefined;
+  appointments: Appointment[];
+  leaves: StaffLeave[];
+  timings: Map<number, SlotTiming>;
+}
+
+// A slot already checked in the same call, which the slots after it mustn't clash with
+interface PlannedSlot extends SlotRequest {
+  timing: SlotTiming;
+}
+
+const NO_TIMING: SlotTiming = { preBufferMinutes: 0, postBufferMinutes: 0, freeGaps: [] };
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export function parseWorkingHours(staff: Staff): WorkingHoursPeriod[] | null {
+  if (!staff.workingHours) return null;
+  try {
+    return JSON.parse(staff.workingHours);
+  } catch (error) {
+    console.warn(`[Availability] Invalid working hours for staff ${staff.id}:`, error);
+    return null;
+  }
+}
+
+// Personal leave applies to its staff member; a public holiday to everyone on its calendar
+export function leaveAppliesTo(leave: StaffLeave, staff: Staff): boolean {
+  if (leave.staffId) return leave.staffId === staff.id;
+  return leave.resourceCalendarId === null || leave.resourceCalendarId === staff.resourceCalendarId;
+}
+
+// Time of day in the salon, in hours, whatever zone the server runs in
+function hoursOfDay(date: Date): number {
+  const { hours, minutes, seconds } = salonParts(date);
+  return hours + minutes / 60 + seconds / 3600;
+}
+
+function addMinutesTo(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60000);
+}
+
+function toSlotTiming(timing: AppointmentTypeTiming): SlotTiming {
+  return {
+    preBufferMinutes: timing.preBufferMinutes,
+    postBufferMinutes: timing.postBufferMinutes,
+    freeGaps: timing.processingMinutes > 0
+      ? [{ offsetMinutes: timing.processingOffsetMinutes, minutes: timing.processingMinutes }]
+      : [],
+  };
+}
+
+// The stretches a staff member is busy for an appointment: from the start of the
+// pre-buffer to the end of the post-buffer, minus any processing gaps
+function busyIntervals(start: Date, end: Date, timing: SlotTiming): Interval[] {
+  const intervals: Interval[] = [];
+  let cursor = addMinutesTo(start, -timing.preBufferMinutes);
+  const gaps = [...timing.freeGaps].sort((a, b) => a.offsetMinutes - b.offsetMinutes);
+  for (const gap of gaps) {
+    const gapStart = addMinutesTo(start, gap.offsetMinutes);
+    const gapEnd = new Date(Math.min(addMinutesTo(gapStart, gap.minutes).getTime(), end.getTime()));
+    if (gapStart > cursor) intervals.push({ start: cursor, end: gapStart });
+    if (gapEnd > cursor) cursor = gapEnd;
+  }
+  const busyEnd = addMinutesTo(end, timing.postBufferMinutes);
+  if (busyEnd > cursor) intervals.push({ start: cursor, end: busyEnd });
+  return intervals;
+}
+
+function intervalsOverlap(a: Interval[], b: Interval[]): boolean {
+  return a.some(x => b.some(y => x.start < y.end && x.end > y.start));
+}
+
+function withoutBuffers(timing: SlotTiming): SlotTiming {
+  return { ...NO_TIMING, freeGaps: timing.freeGaps };
+}
+
+// How two appointments of the same stylist clash, comparing the time the stylist is busy
+// for both: a slot may fall in the other's processing gap but not in its buffers
+function clashBetween(a: Interval, aTiming: SlotTiming, b: Interval, bTiming: SlotTiming): "overlap" | "buffer_overlap" | null {
+  if (!intervalsOverlap(busyIntervals(a.start, a.end, aTiming), busyIntervals(b.start, b.end, bTiming))) return null;
+  return intervalsOverlap(
+    busyIntervals(a.start, a.end, withoutBuffers(aTiming)),
+    busyIntervals(b.start, b.end, withoutBuffers(bTiming))
+  ) ? "overlap" : "buffer_overlap";
+}
+
+function parseClock(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours + (minutes || 0) / 60;
+}
+
+function formatClock(hours: number): string {
+  const h = Math.floor(hours);
+  const m = Math.round((hours - h) * 60);
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+export class AvailabilityService {
+  // Checks a slot against everything that makes it unbookable and reports every reason,
+  // not just the first, so the client can explain the refusal
+  async checkSlot(slot: SlotRequest): Promise<AvailabilityResult> {
+    const { start, end } = slot;
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+      return {
+        available: false,
+        reasons: [{ code: "invalid_time_range", message: "End time must be after start time" }],
+      };
+    }
+
+    const context = await this.loadContext(start, end);
+    const reasons = this.evaluate(slot, this.timingOf(slot.appointmentTypeId, context), context);
+
+    return { available: reasons.length === 0, reasons };
+  }
+
+  // Checks several slots at once, e.g. every occurrence of a series, and returns the ones
+  // that can't be booked. The appointments being moved are left out of the overlap check
+  // so a series never conflicts with itself.
+  async checkSlots(slots: SlotRequest[], excludeAppointmentIds: string[] = []): Promise<OccurrenceConflict[]> {
+    const reasonsPerSlot = await this.evaluateSlots(slots, excludeAppointmentIds);
+    return slots.flatMap((slot, index) => reasonsPerSlot[index].length > 0
+      ? [{ start: slot.start.toISOString(), end: slot.end.toISOString(), reasons: reasonsPerSlot[index] }]
+      : []);
+  }
+
+  // The reasons each slot can't be booked, in the order given (empty when it can), checked
+  // against the same appointments and leave loaded once for the whole range, and against
+  // the slots before it, which are about to be booked too
+  async evaluateSlots(slots: SlotRequest[], excludeAppointmentIds: string[] = []): Promise<AvailabilityReason[][]> {
+    if (slots.length === 0) return [];
+
+    const from = new Date(Math.min(...slots.map(slot => slot.start.getTime())));
+    const to = new Date(Math.max(...slots.map(slot => slot.end.getTime())));
+    const excluded = new Set(excludeAppointmentIds);
+    const context = await this.loadContext(from, to);
+    context.appointments = context.appointments.filter(apt => !excluded.has(apt.id));
+
+    const planned: PlannedSlot[] = [];
+    return slots.map(slot => {
+      if (isNaN(slot.start.getTime()) || isNaN(slot.end.getTime()) || slot.end <= slot.start) {
+        return [{ code: "invalid_time_range" as const, message: "End time must be after start time" }];
+      }
+      const timing = this.timingOf(slot.appointmentTypeId, context);
+      const reasons = [...this.evaluate(slot, timing, context), ...this.checkPlanned(slot, timing, planned)];
+      planned.push({ ...slot, timing });
+      return reasons;
+    });
+  }
+
+  // Free slots of the given length, stepping through each staff member's working periods
+  // at the calendar's time interval. Slots are ordered by start time, with the preferred
+  // staff member's slots ranked first.
+  async findSlots({ staff, durationMinutes, from, to, preferredStaffId, limit = 10, perStaff = false, appointmentTypes = [] }: SlotSearch): Promise<AvailableSlot[]> {
+    const context = await this.loadContext(from, to);
+    const { settings } = context;
+    const interval = settings?.timeInterval || 15;
+    const timing = this.combineTimings(appointmentTypes, context);
+    const now = new Date();
+
+    const ranked = [...staff].sort((a, b) =>
+      Number(b.id === preferredStaffId) - Number(a.id === preferredStaffId)
+    );
+
+    // Days are stepped in salon time, so working hours line up across DST changes
+    const first = salonParts(from);
+    const slots: AvailableSlot[] = [];
+    for (const member of ranked) {
+      const memberSlots: AvailableSlot[] = [];
+
+      for (let dayIndex = 0; memberSlots.length < limit; dayIndex++) {
+        const day = salonTime(first.year, first.month, first.day + dayIndex);
+        if (day >= to) break;
+
+        for (const period of this.periodsForDay(member, day, settings)) {
+          for (
+            let minutes = Math.round(period.hourFrom * 60);
+            minutes + durationMinutes <= period.hourTo * 60 && memberSlots.length < limit;
+            minutes += interval
+          ) {
+            const start = salonTime(first.year, first.month, first.day + dayIndex, 0, minutes);
+            const end = addMinutesTo(start, durationMinutes);
+            if (start >= from && start >= now && end <= to &&
+                this.evaluate({ staff: member, start, end }, timing, context).length === 0) {
+              memberSlots.push({ staffId: member.id, staffName: member.name, start: start.toISOString(), end: end.toISOString() });
+            }
+          }
+        }
+      }
+      slots.push(...memberSlots);
+    }
+
+    return slots
+      .sort((a, b) =>
+        Number(b.staffId === preferredStaffId) - Number(a.staffId === preferredStaffId) ||
+        a.start.localeCompare(b.start)
+      )
+      .slice(0, perStaff ? slots.length : limit);
+  }
+
+  // Buffer and processing times per Odoo appointment type id
+  async getTypeTimings(): Promise<Map<number, SlotTiming>> {
+    const timings = await storage.getAppointmentTypeTimings();
+    return new Map(timings.map(timing => [timing.odooAppointmentTypeId, toSlotTiming(timing)]));
+  }
+
+  private async loadContext(from: Date, to: Date): Promise<EvaluationContext> {
+    const timings = await this.getTypeTimings();
+    // Buffers reach across the range edges: the slot's own pre-buffer plus a neighbour's
+    // post-buffer at most, and the other way round
+    const margin = 2 * Math.max(0, ...Array.from(timings.values()).map(timing =>
+      Math.max(timing.preBufferMinutes, timing.postBufferMinutes)
+    ));
+
+    return {
+      settings: await storage.getCalendarSettings(),
+      appointments: await storage.getAppointmentsByDateRange(addMinutesTo(from, -margin), addMinutesTo(to, margin)),
+      leaves: await storage.getLeavesByDateRange(addMinutesTo(from, -margin), addMinutesTo(to, margin)),
+      timings,
+    };
+  }
+
+  private timingOf(appointmentTypeId: number | null | undefined, context: EvaluationContext): SlotTiming {
+    return (appointmentTypeId && context.timings.get(appointmentTypeId)) || NO_TIMING;
+  }
+
+  // Services performed back to back: the first one's pre-buffer, the last one's
+  // post-buffer, and each one's processing gap at its offset into the whole
+  private combineTimings(appointmentTypes: { id: number; durationMinutes: number }[], context: EvaluationContext): SlotTiming {
+    if (appointmentTypes.length === 0) return NO_TIMING;
+
+    let offsetMinutes = 0;
+    const freeGaps: SlotTiming["freeGaps"] = [];
+    for (const type of appointmentTypes) {
+      const timing = this.timingOf(type.id, context);
+      freeGaps.push(...timing.freeGaps.map(gap => ({ ...gap, offsetMinutes: offsetMinutes + gap.offsetMinutes })));
+      offsetMinutes += type.durationMinutes;
+    }
+    return {
+      preBufferMinutes: this.timingOf(appointmentTypes[0].id, context).preBufferMinutes,
+      postBufferMinutes: this.timingOf(appointmentTypes[appointmentTypes.length - 1].id, context).postBufferMinutes,
+      freeGaps,
+    };
+  }
+
+  private evaluate(
+    { staff, start, end, excludeAppointmentId }: SlotRequest,
+    timing: SlotTiming,
+    { settings, appointments, leaves, timings }: EvaluationContext
+  ): AvailabilityReason[] {
+    // The buffers are the stylist's time too, so they have to fit the working day as well
+    const busyStart = addMinutesTo(start, -timing.preBufferMinutes);
+    const busyEnd = addMinutesTo(end, timing.postBufferMinutes);
+    return [
+      ...this.checkStaff(staff),
+      ...this.checkCalendarRules(start, end, settings),
+      ...this.checkWorkingHours(staff, busyStart, busyEnd, settings),
+      ...this.checkLeaves(staff, busyStart, busyEnd, leaves),
+      ...this.checkOverlaps(staff, start, end, timing, appointments, timings, excludeAppointmentId),
+    ];
+  }
+
+  // Working periods of a staff member on a day; the salon's opening hours when none are synced
+  private periodsForDay(staff: Staff, day: Date, settings?: CalendarSettings): { hourFrom: number; hourTo: number }[] {
+    const workingHours = parseWorkingHours(staff);
+    if (workingHours) {
+      const odooDayOfWeek = (salonParts(day).weekday + 6) % 7; // Odoo uses 0=Monday
+      return workingHours
+        .filter(period => period.dayOfWeek === odooDayOfWeek)
+        .sort((a, b) => a.hourFrom - b.hourFrom);
+    }
+    if (settings) {
+      return [{ hourFrom: parseClock(settings.workingHoursStart), hourTo: parseClock(settings.workingHoursEnd) }];
+    }
+    return [];
+  }
+
+  private checkStaff(staff: Staff): AvailabilityReason[] {
+    if (staff.isActive) return [];
+    return [{ code: "staff_inactive", message: `${staff.name} is not active` }];
+  }
+
+  private checkCalendarRules(start: Date, end: Date, settings?: CalendarSettings): AvailabilityReason[] {
+    if (!settings) return [];
+    const reasons: AvailabilityReason[] = [];
+
+    const inactiveDays = settings.inactiveDays
+      .split(",")
+      .filter(day => day.trim() !== "")
+      .map(Number);
+    const weekday = salonParts(start).weekday;
+    if (inactiveDays.includes(weekday)) {
+      reasons.push({
+        code: "inactive_day",
+        message: `The salon is closed on ${DAY_NAMES[weekday]}`,
+      });
+    }
+
+    const bookingLimit = new Date();
+    bookingLimit.setMonth(bookingLimit.getMonth() + settings.bookingMonthsAhead);
+    if (end > bookingLimit) {
+      reasons.push({
+        code: "beyond_booking_window",
+        message: `Appointments can only be booked up to ${settings.bookingMonthsAhead} months ahead`,
+      });
+    }
+
+    return reasons;
+  }
+
+  // The slot must fit inside a single working period of the staff member on that day.
+  // Staff without synced working hours fall back to the salon's opening hours.
+  private checkWorkingHours(staff: Staff, start: Date, end: Date, settings?: CalendarSettings): AvailabilityReason[] {
+    // Measured from the start day's midnight, so a slot running past midnight never fits
+    const startHours = hoursOfDay(start);
+    const endHours = startHours + (end.getTime() - start.getTime()) / 3600000;
+
+    if (!staff.workingHours && !settings) return [];
+    const periods = this.periodsForDay(staff, start, settings);
+
+    const fits = periods.some(period => startHours >= period.hourFrom && endHours <= period.hourTo);
+    if (fits) return [];
+
+    const hours = periods.map(period => `${formatClock(period.hourFrom)}-${formatClock(period.hourTo)}`).join(", ");
+    return [{
+      code: "outside_working_hours",
+      message: periods.length > 0
+        ? `Outside ${staff.name}'s working hours (${hours})`
+        : `${staff.name} doesn't work on ${DAY_NAMES[salonParts(start).weekday]}`,
+    }];
+  }
+
+  private checkLeaves(staff: Staff, start: Date, end: Date, leaves: StaffLeave[]): AvailabilityReason[] {
+    return leaves
+      .filter(leave => leaveAppliesTo(leave, staff) && start < leave.endTime && end > leave.startTime)
+      .map(leave => ({
+        code: "on_leave" as const,
+        message: leave.staffId ? `${staff.name} is on leave (${leave.name})` : `Public holiday: ${leave.name}`,
+      }));
+  }
+
+  // Compares the time the stylist is busy for both appointments, so a slot may fall in
+  // another appointment's processing gap but not in its buffers
+  private checkOverlaps(
+    staff: Staff,
+    start: Date,
+    end: Date,
+    timing: SlotTiming,
+    appointments: Appointment[],
+    timings: Map<number, SlotTiming>,
+    excludeAppointmentId?: string
+  ): AvailabilityReason[] {
+    return appointments
+      .filter(apt => apt.id !== excludeAppointmentId && apt.staffId === staff.id && apt.status !== "cancelled")
+      .flatMap(apt => {
+        const aptStart = new Date(apt.startTime);
+        const aptEnd = new Date(apt.endTime);
+        const aptTiming = apt.odooAppointmentTypeId ? timings.get(apt.odooAppointmentTypeId) ?? NO_TIMING : NO_TIMING;
+        const clash = clashBetween({ start, end }, timing, { start: aptStart, end: aptEnd }, aptTiming);
+        if (!clash) return [];
+
+        const times = `${formatClock(hoursOfDay(aptStart))}-${formatClock(hoursOfDay(aptEnd))}`;
+        return [clash === "overlap"
+          ? { code: "overlap" as const, message: `Overlaps with ${apt.customerName} (${times})`, conflictingAppointmentId: apt.id }
+          : { code: "buffer_overlap" as const, message: `Too close to ${apt.customerName} (${times}) with buffer time`, conflictingAppointmentId: apt.id }];
+      });
+  }
+
+  // The same comparison against the slots checked before this one in the same call. The
+  // segments of one visit only clash where they overlap themselves, like the combined
+  // timing the slot search uses.
+  private checkPlanned(slot: SlotRequest, timing: SlotTiming, planned: PlannedSlot[]): AvailabilityReason[] {
+    return planned
+      .filter(other => other.staff.id === slot.staff.id)
+      .flatMap(other => {
+        const sameVisit = slot.visitKey !== undefined && other.visitKey === slot.visitKey;
+        const clash = sameVisit
+          ? clashBetween(slot, withoutBuffers(timing), other, withoutBuffers(other.timing))
+          : clashBetween(slot, timing, other, other.timing);
+        if (!clash) return [];
+
+        const what = other.description ?? "another appointment of this booking";
+        const times = `${formatClock(hoursOfDay(other.start))}-${formatClock(hoursOfDay(other.end))}`;
+        return [clash === "overlap"
+          ? { code: "overlap" as const, message: `Overlaps with ${what} (${times})` }
+          : { code: "buffer_overlap" as const, message: `Too close to ${what} (${times}) with buffer time` }];
+      });
+  }
+}
+
+export const availabilityService = new AvailabilityService();
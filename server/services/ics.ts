@@ -0,0 +1,580 @@
+import type { Appointment, Staff } from "@shared/schema";
+import { SALON_TIMEZONE, utcToZoned, zonedToUtc, zoneOffset } from "../timezone";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const PRODID = "-//Salon Agenda//Odoo Appointments//NL";
+// RFC 5545 wants content lines of at most 75 octets, continued on lines starting with a space
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarDocument {
+  name: string;
+  appointments: Appointment[];
+  // Used to name the staff member in the summary of salon-wide feeds
+  staff?: Staff[];
+}
+
+interface ZoneTransition {
+  at: number;
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+// Offset changes of a time zone from the start of `fromYear` to the end of `toYear`. Probes
+// daily and narrows each change down to the minute.
+function zoneTransitions(timeZone: string, fromYear: number, toYear: number): ZoneTransition[] {
+  const transitions: ZoneTransition[] = [];
+  const end = Date.UTC(toYear + 1, 0, 1);
+  let cursor = Date.UTC(fromYear, 0, 1);
+  let offset = zoneOffset(timeZone, cursor);
+
+  while (cursor < end) {
+    const next = Math.min(cursor + DAY_MS, end);
+    const nextOffset = zoneOffset(timeZone, next);
+    if (nextOffset !== offset) {
+      let low = cursor;
+      let high = next;
+      while (high - low > MINUTE_MS) {
+        const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (zoneOffset(timeZone, mid) === offset) low = mid;
+        else high = mid;
+      }
+      transitions.push({ at: high, offsetFrom: offset, offsetTo: nextOffset });
+      offset = nextOffset;
+    }
+    cursor = next;
+  }
+  return transitions;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+// Date-time without zone (e.g. 20250330T020000) from the UTC fields of a timestamp
+function formatFloating(at: number): string {
+  const date = new Date(at);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+}
+
+function formatUtc(at: number): string {
+  return `${formatFloating(at)}Z`;
+}
+
+// UTC offset as +HHMM / -HHMM
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Splits a content line into 75-octet pieces without breaking up multi-byte characters
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+  const pieces: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  pieces.push(current);
+  return pieces.join("\r\n ");
+}
+
+// A person on an event, from ORGANIZER or ATTENDEE
+export interface IcsPerson {
+  name: string | null;
+  email: string | null;
+}
+
+// One appointment read from an .ics file: a single event, or one occurrence of a recurring one
+export interface IcsOccurrence {
+  uid: string;
+  summary: string;
+  description: string | null;
+  categories: string[];
+  organizer: IcsPerson | null;
+  attendees: IcsPerson[];
+  start: Date;
+  // Null when the event gives neither an end nor a duration
+  end: Date | null;
+}
+
+export interface IcsReadResult {
+  occurrences: IcsOccurrence[];
+  // Events left out as a whole, with the reason
+  skipped: { uid: string; summary: string; reason: string }[];
+  // Occurrences that fall before `from` or after `to`
+  outsideWindow: number;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// A date or date-time as written: `local` is the wall-clock time in `timeZone`, stored as
+// if it were UTC, so recurrences step through local days regardless of DST
+interface IcsDateTime {
+  local: number;
+  timeZone: string;
+  allDay: boolean;
+}
+
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const SUPPORTED_RRULE_PARTS = new Set(["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "BYMONTHDAY", "WKST"]);
+// Upper bound on the periods a rule is stepped through, for rules that rarely match
+const MAX_RRULE_PERIODS = 5000;
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    if (char === separator && !quoted) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":VALUE
+function parseContentLine(line: string): ContentLine | null {
+  let quoted = false;
+  let valueAt = -1;
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '"') quoted = !quoted;
+    else if (line[index] === ":" && !quoted) {
+      valueAt = index;
+      break;
+    }
+  }
+  if (valueAt === -1) return null;
+
+  const [name, ...paramParts] = splitOutsideQuotes(line.slice(0, valueAt), ";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const equals = part.indexOf("=");
+    if (equals > 0) params[part.slice(0, equals).toUpperCase()] = part.slice(equals + 1).replace(/^"|"$/g, "");
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(valueAt + 1) };
+}
+
+// The content lines of every VEVENT, unfolded; nested components such as VALARM are left out
+function parseVEvents(text: string): ContentLine[][] {
+  const lines = text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: ContentLine[][] = [];
+  const components: string[] = [];
+  for (const rawLine of lines) {
+    const line = parseContentLine(rawLine);
+    if (!line) continue;
+    const component = line.value.trim().toUpperCase();
+    if (line.name === "BEGIN") {
+      components.push(component);
+      if (component === "VEVENT") events.push([]);
+    } else if (line.name === "END") {
+      components.pop();
+    } else if (components[components.length - 1] === "VEVENT") {
+      events[events.length - 1].push(line);
+    }
+  }
+  return events;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) => char === "n" || char === "N" ? "\n" : char);
+}
+
+// TZIDs are resolved by name. Producers writing names Intl doesn't know (such as Windows
+// zone names) get the salon's zone instead.
+function resolveZone(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback;
+  const name = tzid.replace(/^\//, "");
+  try {
+    zoneOffset(name, 0);
+    return name;
+  } catch {
+    return fallback;
+  }
+}
+
+function parseDateTime(value: string, params: Record<string, string>, defaultZone: string): IcsDateTime | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  return {
+    local: Date.UTC(+year, +month - 1, +day, +(hours ?? 0), +(minutes ?? 0), +(seconds ?? 0)),
+    timeZone: utc ? "UTC" : resolveZone(params.TZID, defaultZone),
+    allDay: hours === undefined,
+  };
+}
+
+// Multi-valued properties such as EXDATE:20250101T100000,20250108T100000
+function parseDateTimes(line: ContentLine, defaultZone: string): IcsDateTime[] {
+  return line.value.split(",").flatMap(value => parseDateTime(value, line.params, defaultZone) ?? []);
+}
+
+function toUtc(dateTime: IcsDateTime): number {
+  return zonedToUtc(dateTime.local, dateTime.timeZone);
+}
+
+// P1DT2H30M and the like, in milliseconds
+function parseDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+(weeks ?? 0) * 7 + +(days ?? 0)) * 24 * 60 + +(hours ?? 0) * 60 + +(minutes ?? 0)) * MINUTE_MS +
+    +(seconds ?? 0) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+function parsePerson(line: ContentLine): IcsPerson {
+  const address = line.value.replace(/^mailto:/i, "").trim();
+  return {
+    name: line.params.CN ? unescapeText(line.params.CN).trim() || null : null,
+    email: address.includes("@") ? address.toLowerCase() : null,
+  };
+}
+
+// Local starts of the occurrences an RRULE generates from `start` (wall-clock ms), up to
+// `windowEnd`. Supports FREQ=DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL,
+// BYDAY (with ordinals such as 2TU or -1FR when monthly) and BYMONTHDAY; returns null
+// for rules using anything else.
+function expandRRule(start: IcsDateTime, rrule: string, windowEnd: number): number[] | null {
+  const parts = new Map(rrule.split(";").filter(Boolean).map(part => {
+    const [key, value = ""] = part.split("=");
+    return [key.toUpperCase(), value.toUpperCase()] as const;
+  }));
+  const freq = parts.get("FREQ");
+  if (!freq || !["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)) return null;
+  if (Array.from(parts.keys()).some(key => !SUPPORTED_RRULE_PARTS.has(key))) return null;
+
+  const interval = Math.max(1, parseInt(parts.get("INTERVAL") ?? "1") || 1);
+  const count = parts.has("COUNT") ? parseInt(parts.get("COUNT")!) || 0 : Infinity;
+
+  let until = Infinity;
+  if (parts.has("UNTIL")) {
+    const value = parseDateTime(parts.get("UNTIL")!, {}, start.timeZone);
+    if (!value) return null;
+    until = value.allDay
+      ? value.local + DAY_MS - 1
+      : value.timeZone === "UTC" && start.timeZone !== "UTC"
+        ? utcToZoned(value.local, start.timeZone)
+        : value.local;
+  }
+
+  const byDay: { ordinal: number; weekday: number }[] = [];
+  for (const value of parts.get("BYDAY")?.split(",").filter(Boolean) ?? []) {
+    const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(value);
+    if (!match) return null;
+    byDay.push({ ordinal: match[1] ? parseInt(match[1]) : 0, weekday: RRULE_WEEKDAYS.indexOf(match[2]) });
+  }
+  const byMonthDay: number[] = [];
+  for (const value of parts.get("BYMONTHDAY")?.split(",").filter(Boolean) ?? []) {
+    const day = parseInt(value);
+    if (!day || Math.abs(day) > 31) return null;
+    byMonthDay.push(day);
+  }
+
+  // Which combinations mean what is spread over RFC 5545 3.3.10; only the common ones are read
+  if (byMonthDay.length > 0 && freq !== "MONTHLY") return null;
+  if (byMonthDay.length > 0 && byDay.length > 0) return null;
+  if (freq === "YEARLY" && byDay.length > 0) return null;
+  if (freq !== "MONTHLY" && byDay.some(day => day.ordinal !== 0)) return null;
+
+  const startDate = new Date(start.local);
+  const timeOfDay = start.local - Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), startDate.getUTCDate());
+  const startDay = start.local - timeOfDay;
+
+  const candidatesOf = (period: number): { periodStart: number; starts: number[] } => {
+    if (freq === "DAILY") {
+      const day = startDay + period * interval * DAY_MS;
+      const weekday = new Date(day).getUTCDay();
+      const matches = byDay.length === 0 || byDay.some(entry => entry.weekday === weekday);
+      return { periodStart: day, starts: matches ? [day + timeOfDay] : [] };
+    }
+    if (freq === "WEEKLY") {
+      // Weeks start on Monday
+      const weekStart = startDay - ((startDate.getUTCDay() + 6) % 7) * DAY_MS + period * interval * 7 * DAY_MS;
+      const weekdays = byDay.length > 0 ? byDay.map(entry => entry.weekday) : [startDate.getUTCDay()];
+      return {
+        periodStart: weekStart,
+        starts: weekdays.map(weekday => weekStart + ((weekday + 6) % 7) * DAY_MS + timeOfDay),
+      };
+    }
+    if (freq === "MONTHLY") {
+      const monthStart = Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + period * interval, 1);
+      const monthDate = new Date(monthStart);
+      const daysInMonth = new Date(Date.UTC(monthDate.getUTCFullYear(), monthDate.getUTCMonth() + 1, 0)).getUTCDate();
+      let days: number[];
+      if (byMonthDay.length > 0) {
+        days = byMonthDay.map(day => day > 0 ? day : daysInMonth + day + 1);
+      } else if (byDay.length > 0) {
+        days = byDay.flatMap(({ ordinal, weekday }) => {
+          const first = ((weekday - monthDate.getUTCDay() + 7) % 7) + 1;
+          const all: number[] = [];
+          for (let day = first; day <= daysInMonth; day += 7) all.push(day);
+          if (ordinal === 0) return all;
+          const picked = ordinal > 0 ? all[ordinal - 1] : all[all.length + ordinal];
+          return picked ? [picked] : [];
+        });
+      } else {
+        days = [startDate.getUTCDate()];
+      }
+      return {
+        periodStart: monthStart,
+        // Months without the day (the 31st, say) are skipped
+        starts: days.filter(day => day >= 1 && day <= daysInMonth).map(day => monthStart + (day - 1) * DAY_MS + timeOfDay),
+      };
+    }
+    const year = startDate.getUTCFullYear() + period * interval;
+    const date = Date.UTC(year, startDate.getUTCMonth(), startDate.getUTCDate());
+    // February 29th only recurs in leap years
+    const exists = new Date(date).getUTCDate() === startDate.getUTCDate();
+    return { periodStart: Date.UTC(year, 0, 1), starts: exists ? [date + timeOfDay] : [] };
+  };
+
+  const starts: number[] = [];
+  let generated = 0;
+  for (let period = 0; period < MAX_RRULE_PERIODS; period++) {
+    const { periodStart, starts: candidates } = candidatesOf(period);
+    if (periodStart > windowEnd || periodStart > until) break;
+    for (const candidate of Array.from(new Set(candidates)).sort((a, b) => a - b)) {
+      if (candidate < start.local) continue;
+      if (candidate > until || generated >= count) return starts;
+      generated++;
+      if (candidate <= windowEnd) starts.push(candidate);
+    }
+  }
+  return starts;
+}
+
+export class IcsService {
+  readonly timeZone: string;
+  private uidDomain: string;
+
+  constructor() {
+    this.timeZone = SALON_TIMEZONE;
+    this.uidDomain = "odoo";
+    try {
+      this.uidDomain = new URL(process.env.ODOO_URL || "").hostname || this.uidDomain;
+    } catch {
+      // No usable Odoo URL; the UIDs stay unique through the event id alone
+    }
+  }
+
+  // A VCALENDAR with one VEVENT per appointment. Times are given in the salon's time zone,
+  // described by a VTIMEZONE covering every year the appointments fall in.
+  buildCalendar({ name, appointments, staff }: CalendarDocument): string {
+    const now = Date.now();
+    const years = appointments.map(appointment => new Date(appointment.startTime).getUTCFullYear());
+    const fromYear = Math.min(new Date(now).getUTCFullYear(), ...years) - 1;
+    const toYear = Math.max(new Date(now).getUTCFullYear(), ...years);
+    const staffNames = staff ? new Map(staff.map(member => [member.id, member.name])) : undefined;
+
+    const lines = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      `PRODID:${PRODID}`,
+      "CALSCALE:GREGORIAN",
+      "METHOD:PUBLISH",
+      `X-WR-CALNAME:${escapeText(name)}`,
+      `X-WR-TIMEZONE:${this.timeZone}`,
+      "REFRESH-INTERVAL;VALUE=DURATION:PT15M",
+      "X-PUBLISHED-TTL:PT15M",
+      ...this.buildTimezone(fromYear, toYear),
+    ];
+
+    for (const appointment of appointments) {
+      lines.push(...this.buildEvent(appointment, now, staffNames));
+    }
+    lines.push("END:VCALENDAR");
+
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+  }
+
+  // Appointments in an exported .ics file that fall between `from` and `to`. Recurring
+  // events are expanded into their occurrences, leaving out EXDATEs and instances moved by
+  // a RECURRENCE-ID event, which is read as an occurrence of its own. Times without a zone
+  // are the salon's; VTIMEZONE blocks aren't read, as TZIDs are resolved by name.
+  readEvents(text: string, from: Date, to: Date): IcsReadResult {
+    const result: IcsReadResult = { occurrences: [], skipped: [], outsideWindow: 0 };
+    const windowEnd = utcToZoned(to.getTime(), this.timeZone) + DAY_MS;
+    const events = parseVEvents(text).map(lines => {
+      const first = (name: string) => lines.find(line => line.name === name);
+      const dateOf = (name: string) => {
+        const line = first(name);
+        return line ? parseDateTime(line.value, line.params, this.timeZone) : null;
+      };
+      return {
+        uid: first("UID")?.value.trim() || "",
+        summary: unescapeText(first("SUMMARY")?.value ?? "").trim(),
+        description: first("DESCRIPTION") ? unescapeText(first("DESCRIPTION")!.value).trim() || null : null,
+        status: first("STATUS")?.value.trim().toUpperCase() ?? null,
+        categories: lines
+          .filter(line => line.name === "CATEGORIES")
+          .flatMap(line => splitOutsideQuotes(line.value, ",").map(value => unescapeText(value).trim()))
+          .filter(Boolean),
+        organizer: first("ORGANIZER") ? parsePerson(first("ORGANIZER")!) : null,
+        attendees: lines.filter(line => line.name === "ATTENDEE").map(parsePerson),
+        start: dateOf("DTSTART"),
+        end: dateOf("DTEND"),
+        duration: first("DURATION") ? parseDuration(first("DURATION")!.value) : null,
+        rrule: first("RRULE")?.value.trim() ?? null,
+        exdates: lines.filter(line => line.name === "EXDATE").flatMap(line => parseDateTimes(line, this.timeZone)),
+        recurrenceId: dateOf("RECURRENCE-ID"),
+      };
+    });
+
+    // Instances of a series that were moved or cancelled on their own, per series UID
+    const overridden = new Map<string, Set<number>>();
+    for (const event of events) {
+      if (event.recurrenceId) {
+        const instances = overridden.get(event.uid) ?? new Set<number>();
+        instances.add(toUtc(event.recurrenceId));
+        overridden.set(event.uid, instances);
+      }
+    }
+
+    for (const event of events) {
+      const skip = (reason: string) => result.skipped.push({ uid: event.uid, summary: event.summary, reason });
+      // A cancelled instance only removes itself from its series
+      if (event.status === "CANCELLED") {
+        if (!event.recurrenceId) skip("Cancelled");
+        continue;
+      }
+      if (!event.start) {
+        skip("No start time");
+        continue;
+      }
+      if (event.start.allDay) {
+        skip("All-day event");
+        continue;
+      }
+
+      const start = event.start;
+      const localStarts = event.rrule && !event.recurrenceId
+        ? expandRRule(start, event.rrule, windowEnd)
+        : [start.local];
+      if (!localStarts) {
+        skip(`Unsupported recurrence rule ${event.rrule}`);
+        continue;
+      }
+
+      const durationMs = event.end
+        ? toUtc(event.end) - toUtc(start)
+        : event.duration;
+      const excluded = new Set(event.recurrenceId ? [] : [
+        ...event.exdates.filter(exdate => !exdate.allDay).map(toUtc),
+        ...Array.from(overridden.get(event.uid) ?? []),
+      ]);
+      const excludedDays = new Set(event.exdates.filter(exdate => exdate.allDay).map(exdate => exdate.local));
+
+      for (const local of localStarts) {
+        const at = zonedToUtc(local, start.timeZone);
+        if (excluded.has(at) || excludedDays.has(local - (((local % DAY_MS) + DAY_MS) % DAY_MS))) continue;
+        const end = durationMs !== null && durationMs > 0 ? at + durationMs : null;
+        if ((end ?? at) <= from.getTime() || at > to.getTime()) {
+          result.outsideWindow++;
+          continue;
+        }
+        result.occurrences.push({
+          uid: event.uid,
+          summary: event.summary,
+          description: event.description,
+          categories: event.categories,
+          organizer: event.organizer,
+          attendees: event.attendees,
+          start: new Date(at),
+          end: end !== null ? new Date(end) : null,
+        });
+      }
+    }
+
+    result.occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+    return result;
+  }
+
+  private buildTimezone(fromYear: number, toYear: number): string[] {
+    const lines = ["BEGIN:VTIMEZONE", `TZID:${this.timeZone}`];
+    const transitions = zoneTransitions(this.timeZone, fromYear, toYear);
+
+    if (transitions.length === 0) {
+      const offset = formatOffset(zoneOffset(this.timeZone, Date.UTC(fromYear, 0, 1)));
+      lines.push(
+        "BEGIN:STANDARD",
+        `DTSTART:${fromYear}0101T000000`,
+        `TZOFFSETFROM:${offset}`,
+        `TZOFFSETTO:${offset}`,
+        "END:STANDARD",
+      );
+    }
+
+    // Offsets above the lowest one the zone uses count as daylight saving time
+    const standardOffset = Math.min(...transitions.flatMap(t => [t.offsetFrom, t.offsetTo]));
+    for (const transition of transitions) {
+      const kind = transition.offsetTo > standardOffset ? "DAYLIGHT" : "STANDARD";
+      lines.push(
+        `BEGIN:${kind}`,
+        // The onset is given in local time as it was before the change
+        `DTSTART:${formatFloating(transition.at + transition.offsetFrom * MINUTE_MS)}`,
+        `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+        `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+        `END:${kind}`,
+      );
+    }
+
+    lines.push("END:VTIMEZONE");
+    return lines;
+  }
+
+  private buildEvent(appointment: Appointment, now: number, staffNames?: Map<string, string>): string[] {
+    const start = new Date(appointment.startTime).getTime();
+    const end = new Date(appointment.endTime).getTime();
+    const staffName = appointment.staffId ? staffNames?.get(appointment.staffId) : undefined;
+    const summary = [appointment.customerName, appointment.service].filter(Boolean).join(" - ");
+
+    const lines = [
+      "BEGIN:VEVENT",
+      // Derived from the Odoo event so the same appointment keeps its UID across feeds and syncs
+      `UID:odoo-calendar-event-${appointment.odooEventId}@${this.uidDomain}`,
+      `DTSTAMP:${formatUtc(now)}`,
+      `DTSTART;TZID=${this.timeZone}:${this.formatLocal(start)}`,
+      `DTEND;TZID=${this.timeZone}:${this.formatLocal(end)}`,
+      `SUMMARY:${escapeText(staffName ? `${summary} (${staffName})` : summary)}`,
+      "STATUS:CONFIRMED",
+      "TRANSP:OPAQUE",
+    ];
+    if (appointment.notes) lines.push(`DESCRIPTION:${escapeText(appointment.notes)}`);
+    lines.push("END:VEVENT");
+    return lines;
+  }
+
+  private formatLocal(at: number): string {
+    return formatFloating(at + zoneOffset(this.timeZone, at) * MINUTE_MS);
+  }
+}
+
+export const icsService = new IcsService();
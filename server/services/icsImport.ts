@@ -0,0 +1,231 @@
+import { storage } from "../storage";
+import { odooService, type OdooAppointmentType } from "./odoo";
+import { availabilityService } from "./availability";
+import { auditService, type AuditActor } from "./audit";
+import { visitService } from "./visit";
+import { icsService, type IcsOccurrence, type IcsPerson } from "./ics";
+import {
+  MAX_IMPORT_APPOINTMENTS,
+  type IcsImportPreview,
+  type IcsImportRequest,
+  type IcsImportResult,
+  type IcsImportRow,
+  type Staff,
+} from "@shared/schema";
+
+export class IcsImportError extends Error {}
+
+// A previewed row with what it was matched to, for creating it
+interface PlannedRow extends IcsImportRow {
+  staffMember: Staff | null;
+  appointmentType: OdooAppointmentType | null;
+}
+
+// Separators left over once the service is taken out of a summary such as "Jane - Haircut"
+const SUMMARY_SEPARATORS = /^[\s\-–—:|,/]+|[\s\-–—:|,/]+$/g;
+
+export class IcsImportService {
+  // What importing the file would create: one row per appointment in the booking window,
+  // matched to a staff member and service, with its conflicts. Nothing is written.
+  async preview(request: IcsImportRequest): Promise<IcsImportPreview> {
+    const { rows, skipped, outsideWindow } = await this.plan(request);
+    return {
+      rows: rows.map(({ staffMember: _staffMember, appointmentType: _appointmentType, ...row }) => row),
+      skipped,
+      outsideWindow,
+    };
+  }
+
+  // Creates the rows picked from the preview through Odoo, one event per appointment, and
+  // stores them locally like a booking. Rows that can't be imported are left out, and so
+  // are rows with conflicts unless the request allows them; rows Odoo refuses are
+  // reported and the rest continue.
+  async run(request: IcsImportRequest, actor: AuditActor): Promise<IcsImportResult> {
+    const keys = new Set(request.keys ?? []);
+    const { rows } = await this.plan(request);
+    const result: IcsImportResult = { created: 0, failed: [], conflicts: [] };
+    // Customers often have several appointments in one file; look each up once by email.
+    // Names aren't unique, so rows without an email are looked up every time.
+    const partners = new Map<string, number>();
+
+    for (const row of rows) {
+      if (!keys.has(row.key) || row.error || !row.staffMember || !row.appointmentType) continue;
+      try {
+        // Checked again just before creating it, so it also sees the rows this run has
+        // already created rather than every row of the file
+        if (!request.allowConflicts) {
+          const [reasons] = await availabilityService.evaluateSlots([{
+            staff: row.staffMember,
+            start: new Date(row.start),
+            end: new Date(row.end),
+            appointmentTypeId: row.appointmentType.id,
+          }]);
+          if (reasons.length > 0) {
+            result.conflicts.push({ key: row.key, summary: row.summary, reasons });
+            continue;
+          }
+        }
+
+        const partnerKey = row.customerEmail?.toLowerCase();
+        let odooPartnerId = partnerKey ? partners.get(partnerKey) : undefined;
+        if (odooPartnerId === undefined) {
+          odooPartnerId = await odooService.findOrCreatePartner({
+            name: row.customerName,
+            email: row.customerEmail ?? undefined,
+          });
+          if (partnerKey) partners.set(partnerKey, odooPartnerId);
+        }
+
+        const odooEvent = await odooService.createAppointment({
+          customerName: row.customerName,
+          customerEmail: row.customerEmail ?? undefined,
+          appointmentTypeId: row.appointmentType.id,
+          startTime: row.start,
+          endTime: row.end,
+          staffId: row.staffMember.odooUserId.toString(),
+          partnerId: odooPartnerId,
+        });
+
+        const start = new Date(row.start);
+        const end = new Date(row.end);
+        const appointment = await storage.createAppointment({
+          odooEventId: odooEvent.id,
+          name: `${row.customerName} - ${row.appointmentType.name}`,
+          customerName: row.customerName,
+          customerEmail: row.customerEmail,
+          customerPhone: null,
+          odooPartnerId,
+          service: row.appointmentType.name,
+          startTime: start,
+          endTime: end,
+          duration: Math.round((end.getTime() - start.getTime()) / 60000),
+          staffId: row.staffMember.id,
+          status: "confirmed",
+          price: null,
+          notes: row.notes,
+          odooAppointmentTypeId: row.appointmentType.id,
+        });
+        await auditService.record({
+          actor,
+          action: "imported",
+          appointment,
+          after: appointment,
+          odooStatus: "synced",
+        });
+        result.created++;
+      } catch (error) {
+        console.error(`[Import] Failed to import ${row.key}:`, error);
+        result.failed.push({
+          key: row.key,
+          summary: row.summary,
+          error: error instanceof Error ? error.message : "Failed to create appointment",
+        });
+      }
+    }
+    return result;
+  }
+
+  private async plan(request: IcsImportRequest) {
+    const staffList = await storage.getAllStaff();
+    const appointmentTypes = await odooService.fetchAppointmentTypes();
+    const settings = await storage.getCalendarSettings();
+
+    const defaultStaff = request.defaultStaffId
+      ? staffList.find(member => member.id === request.defaultStaffId)
+      : undefined;
+    if (request.defaultStaffId && !defaultStaff) {
+      throw new IcsImportError("Staff member not found");
+    }
+    const defaultType = request.defaultAppointmentTypeId !== undefined
+      ? appointmentTypes.find(type => type.id === request.defaultAppointmentTypeId)
+      : undefined;
+    if (request.defaultAppointmentTypeId !== undefined && !defaultType) {
+      throw new IcsImportError("Unknown appointment type");
+    }
+
+    // Only appointments still to come, up to as far ahead as can be booked
+    const now = new Date();
+    const horizon = new Date(now);
+    horizon.setMonth(horizon.getMonth() + (settings?.bookingMonthsAhead ?? 5));
+    const { occurrences, skipped, outsideWindow } = icsService.readEvents(request.ics, now, horizon);
+    if (occurrences.length > MAX_IMPORT_APPOINTMENTS) {
+      throw new IcsImportError(
+        `The file holds ${occurrences.length} appointments; import at most ${MAX_IMPORT_APPOINTMENTS} at a time`
+      );
+    }
+
+    const findStaff = (person: IcsPerson) => staffList.find(member =>
+      (person.email && member.email?.toLowerCase() === person.email) ||
+      (person.name && member.name.toLowerCase() === person.name.toLowerCase())
+    );
+    // Longest names first, so "Haircut & Styling" wins over "Haircut"
+    const typesByName = [...appointmentTypes].sort((a, b) => b.name.length - a.name.length);
+    const findType = (occurrence: IcsOccurrence) => {
+      const text = [...occurrence.categories, occurrence.summary].join(" ").toLowerCase();
+      return typesByName.find(type => type.name && text.includes(type.name.toLowerCase()));
+    };
+
+    const rows: PlannedRow[] = occurrences.map(occurrence => {
+      const people = [occurrence.organizer, ...occurrence.attendees].filter((person): person is IcsPerson => !!person);
+      const staffMember = people.map(findStaff).find(Boolean) ?? defaultStaff ?? null;
+      // The customer is the first attendee who isn't staff; the organizer is usually the
+      // account the old system booked from
+      const customer = occurrence.attendees.find(person => !findStaff(person));
+      const matchedType = findType(occurrence);
+      const appointmentType = matchedType ?? defaultType ?? null;
+
+      const summaryName = matchedType
+        ? occurrence.summary.replace(new RegExp(matchedType.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i"), "")
+            .replace(SUMMARY_SEPARATORS, "")
+        : occurrence.summary;
+      const customerName = customer?.name || summaryName || customer?.email || occurrence.summary || "Unknown";
+
+      // Events without an end last as long as their service
+      const durationMinutes = Math.round((appointmentType?.appointment_duration || 0) * 60);
+      const end = occurrence.end ?? (durationMinutes > 0
+        ? new Date(occurrence.start.getTime() + durationMinutes * 60000)
+        : null);
+
+      let error: string | null = null;
+      if (!staffMember) error = "No staff member matches the organizer or attendees";
+      else if (!appointmentType) error = "No service matches the summary or categories";
+      else if (!end) error = "The event has no end time";
+      else if (!visitService.canPerform(staffMember, appointmentType)) {
+        error = `${staffMember.name} doesn't perform ${appointmentType.name}`;
+      }
+
+      return {
+        key: `${occurrence.uid}|${occurrence.start.toISOString()}`,
+        summary: occurrence.summary,
+        start: occurrence.start.toISOString(),
+        end: (end ?? occurrence.start).toISOString(),
+        customerName,
+        customerEmail: customer?.email ?? null,
+        staffId: staffMember?.id ?? null,
+        appointmentTypeId: appointmentType?.id ?? null,
+        service: appointmentType?.name ?? null,
+        notes: occurrence.description,
+        error,
+        reasons: [],
+        staffMember,
+        appointmentType,
+      };
+    });
+
+    // Conflicts with existing appointments, working hours and leave, and with earlier rows
+    // of the same file
+    const checkable = rows.filter(row => row.staffMember && row.end > row.start);
+    const reasonsPerRow = await availabilityService.evaluateSlots(checkable.map(row => ({
+      staff: row.staffMember!,
+      start: new Date(row.start),
+      end: new Date(row.end),
+      appointmentTypeId: row.appointmentTypeId,
+      description: `"${row.summary}" in the same file`,
+    })));
+    checkable.forEach((row, index) => row.reasons.push(...reasonsPerRow[index]));
+
+    return { rows, skipped, outsideWindow };
+  }
+}
+
+export const icsImportService = new IcsImportService();
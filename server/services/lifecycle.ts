@@ -0,0 +1,36 @@
+import { storage } from "../storage";
+import {
+  appointmentTransitions,
+  getAvailableTransitions,
+  type Appointment,
+  type AppointmentStatus,
+  type AppointmentTransition,
+} from "@shared/schema";
+
+// The column that records when an appointment entered each lifecycle status
+const TRANSITION_TIMESTAMPS: Partial<Record<AppointmentStatus, keyof Appointment>> = {
+  checked_in: "checkedInAt",
+  in_progress: "startedAt",
+  completed: "completedAt",
+  no_show: "noShowAt",
+};
+
+export class LifecycleService {
+  canTransition(appointment: Appointment, transition: AppointmentTransition): boolean {
+    return getAvailableTransitions(appointment.status).includes(transition);
+  }
+
+  // Moves the appointment to the transition's target status and stamps the time.
+  // Callers check canTransition first.
+  async apply(appointment: Appointment, transition: AppointmentTransition): Promise<Appointment | undefined> {
+    const status = appointmentTransitions[transition].to;
+    const timestampField = TRANSITION_TIMESTAMPS[status];
+
+    return storage.updateAppointment(appointment.id, {
+      status,
+      ...(timestampField && { [timestampField]: new Date() }),
+    });
+  }
+}
+
+export const lifecycleService = new LifecycleService();
@@ -7,7 +7,7 @@ interface OdooConfig {
   apiKey: string;
 }
 
-interface OdooAppointment {
+export interface OdooAppointment {
   id: number;
   name: string;
   start: string;
@@ -22,14 +22,46 @@ interface OdooAppointment {
   description?: string;
   location?: string;
   appointment_category_id?: [number, string] | false;
+  write_date?: string;
+  active?: boolean;
+  recurrence_id?: [number, string] | false;
+  rrule?: string | false;
   categoryColor?: string | null;
 }
 
+export interface OdooAppointmentType {
+  id: number;
+  name: string;
+  appointment_duration: number; // in hours
+  is_published: boolean;
+  category: string | false;
+  resource_ids: number[]; // the appointment resources that perform it; empty means anyone
+  product_id: [number, string] | false;
+}
+
 interface OdooResource {
   id: number;
   name: string;
   employee_id: [number, string] | false;
   resource_calendar_id: [number, string] | false;
+  resource_id: [number, string] | false; // underlying resource.resource, referenced by leaves
+}
+
+interface OdooLeave {
+  id: number;
+  name: string | false;
+  date_from: string;
+  date_to: string;
+  resource_id: [number, string] | false; // false for public holidays
+  calendar_id: [number, string] | false;
+}
+
+interface OdooPartner {
+  id: number;
+  name: string;
+  email: string | false;
+  phone: string | false;
+  mobile: string | false;
 }
 
 interface OdooUser {
@@ -38,21 +70,26 @@ interface OdooUser {
   email: string;
 }
 
+// Odoo datetimes are "YYYY-MM-DD HH:MM:SS" in UTC, without a zone
+export function parseOdooDatetime(value: string): Date {
+  return new Date(`${value.replace(" ", "T")}Z`);
+}
+
 export class OdooService {
   private config: OdooConfig;
   private uid: number | null = null;
   private commonClient: any;
   private objectClient: any;
 
-  // Format date for Odoo (expects 'YYYY-MM-DD HH:MM:SS')
+  // Format date for Odoo (expects 'YYYY-MM-DD HH:MM:SS' in UTC)
   private formatDateForOdoo(date: Date | string): string {
     const d = typeof date === 'string' ? new Date(date) : date;
-    const year = d.getFullYear();
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const day = String(d.getDate()).padStart(2, '0');
-    const hours = String(d.getHours()).padStart(2, '0');
-    const minutes = String(d.getMinutes()).padStart(2, '0');
-    const seconds = String(d.getSeconds()).padStart(2, '0');
+    const year = d.getUTCFullYear();
+    const month = String(d.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(d.getUTCDate()).padStart(2, '0');
+    const hours = String(d.getUTCHours()).padStart(2, '0');
+    const minutes = String(d.getUTCMinutes()).padStart(2, '0');
+    const seconds = String(d.getUTCSeconds()).padStart(2, '0');
     return `${year}-${month}-${day} ${hours}:${minutes}:${seconds}`;
   }
 
@@ -156,24 +193,42 @@ export class OdooService {
   }
 
   async fetchAppointments(startDate: string, endDate: string): Promise<OdooAppointment[]> {
+    console.log(`[Odoo] Fetching appointments from ${startDate} to ${endDate}`);
+    // Use overlap logic: fetch appointments that overlap with the date range
+    // An appointment overlaps if: start < endDate AND stop > startDate
+    return this.readAppointments([
+      ["start", "<", endDate],
+      ["stop", ">", startDate]
+    ]);
+  }
+
+  // Every event modified at or after an Odoo write_date ('YYYY-MM-DD HH:MM:SS', UTC),
+  // whenever it takes place. ">=" re-reads events written in the same second as the
+  // previous high-water mark, which is harmless and avoids missing any.
+  async fetchChangedAppointments(changedSince: string): Promise<OdooAppointment[]> {
+    console.log(`[Odoo] Fetching appointments changed since ${changedSince}`);
+    return this.readAppointments([["write_date", ">=", changedSince]]);
+  }
+
+  async fetchAppointmentsByIds(eventIds: number[]): Promise<OdooAppointment[]> {
+    if (eventIds.length === 0) return [];
+    console.log(`[Odoo] Fetching ${eventIds.length} appointments by id`);
+    return this.readAppointments([["id", "in", eventIds]]);
+  }
+
+  private async readAppointments(domain: any[]): Promise<OdooAppointment[]> {
     try {
-      console.log(`[Odoo] Fetching appointments from ${startDate} to ${endDate}`);
-      
-      // Use overlap logic: fetch appointments that overlap with the date range
-      // An appointment overlaps if: start < endDate AND stop > startDate
       const appointments = await this.executeKw(
         "calendar.event",
         "search_read",
-        [[
-          ["start", "<", endDate],
-          ["stop", ">", startDate]
-        ]],
+        [domain],
         {
           fields: [
             "id", "name", "start", "stop", 
             "partner_id", "partner_ids", "user_id", 
             "appointment_resource_id", "resource_ids", "appointment_type_id",
-            "duration", "description", "location", "appointment_category_id"
+            "duration", "description", "location", "appointment_category_id",
+            "write_date", "recurrence_id", "rrule"
           ],
           order: "start ASC"
         }
@@ -221,6 +276,30 @@ export class OdooService {
     }
   }
 
+  // Lightweight listing of every event id in the window, archived ones included,
+  // used to detect events that were deleted or archived directly in Odoo
+  async fetchAppointmentIds(startDate: string, endDate: string): Promise<{ id: number; active: boolean }[]> {
+    try {
+      const events = await this.executeKw(
+        "calendar.event",
+        "search_read",
+        [[
+          ["start", "<", endDate],
+          ["stop", ">", startDate]
+        ]],
+        {
+          fields: ["id", "active"],
+          context: { active_test: false }
+        }
+      );
+
+      return events;
+    } catch (error) {
+      console.error("Failed to fetch appointment ids from Odoo:", error);
+      throw error;
+    }
+  }
+
   async fetchResources(): Promise<OdooResource[]> {
     try {
       const resources = await this.executeKw(
@@ -228,7 +307,7 @@ export class OdooService {
         "search_read",
         [[]],
         {
-          fields: ["id", "name", "employee_id", "resource_calendar_id"],
+          fields: ["id", "name", "employee_id", "resource_calendar_id", "resource_id"],
           order: "name ASC"
         }
       );
@@ -276,6 +355,33 @@ export class OdooService {
     }
   }
 
+  // Time off overlapping the range: public holidays of the given working-hours calendars
+  // and personal leave of the given resource.resource ids
+  async fetchLeaves(calendarIds: number[], resourceIds: number[], startDate: string, endDate: string): Promise<OdooLeave[]> {
+    if (calendarIds.length === 0 && resourceIds.length === 0) return [];
+
+    try {
+      return await this.executeKw(
+        "resource.calendar.leaves",
+        "search_read",
+        [[
+          "|",
+          "&", ["resource_id", "=", false], ["calendar_id", "in", calendarIds],
+          ["resource_id", "in", resourceIds],
+          ["date_from", "<", endDate],
+          ["date_to", ">", startDate],
+        ]],
+        {
+          fields: ["id", "name", "date_from", "date_to", "resource_id", "calendar_id"],
+          order: "date_from ASC"
+        }
+      );
+    } catch (error) {
+      console.error("Failed to fetch leaves from Odoo:", error);
+      throw error;
+    }
+  }
+
   async updateAppointment(appointmentId: number, data: Partial<OdooAppointment>): Promise<boolean> {
     try {
       // Format dates for Odoo if present
@@ -334,7 +440,7 @@ export class OdooService {
     }
   }
 
-  async fetchAppointmentTypes(): Promise<any[]> {
+  async fetchAppointmentTypes(): Promise<OdooAppointmentType[]> {
     try {
       const types = await this.executeKw(
         "appointment.type",
@@ -403,6 +509,27 @@ export class OdooService {
     }
   }
 
+  // Batch read of specific partners, used by the sync to resolve event attendees
+  async fetchPartnersByIds(partnerIds: number[]): Promise<OdooPartner[]> {
+    if (partnerIds.length === 0) return [];
+
+    try {
+      const partners = await this.executeKw(
+        "res.partner",
+        "read",
+        [partnerIds],
+        {
+          fields: ["id", "name", "email", "phone", "mobile"]
+        }
+      );
+      
+      return partners;
+    } catch (error) {
+      console.error("Failed to fetch partners by id from Odoo:", error);
+      throw error;
+    }
+  }
+
   async findOrCreatePartner(data: {
     name: string;
     email?: string;
@@ -488,28 +615,58 @@ export class OdooService {
         { fields: ["id", "name", "product_id"] }
       );
 
-      // Create sales order
-      const orderData: any = {
-        partner_id: data.partnerId,
-        date_order: this.formatDateForOdoo(new Date()),
-      };
-
-      // Note: calendar_event_id is not a standard field on sale.order
-      // The link between calendar events and sales orders is typically managed
-      // through other means in Odoo (e.g., origin field or custom modules)
-
-      const orderId = await this.executeKw(
-        "sale.order",
-        "create",
-        [orderData]
-      );
+      // calendar_event_id is not a standard field on sale.order, so the order is linked to
+      // its event through origin. A retry (e.g. from the outbox after a call that did reach
+      // Odoo) finds the order and only adds the lines it's missing.
+      const origin = data.calendarEventId ? `calendar.event,${data.calendarEventId}` : false;
+      let orderId: number | undefined;
+      const existingProductIds: number[] = [];
+      if (origin) {
+        const [existingOrder] = await this.executeKw(
+          "sale.order",
+          "search_read",
+          [[["origin", "=", origin]]],
+          { fields: ["id"], limit: 1 }
+        );
+        if (existingOrder) {
+          orderId = existingOrder.id as number;
+          const lines = await this.executeKw(
+            "sale.order.line",
+            "search_read",
+            [[["order_id", "=", orderId]]],
+            { fields: ["product_id"] }
+          );
+          for (const line of lines) {
+            if (Array.isArray(line.product_id)) existingProductIds.push(line.product_id[0]);
+          }
+          console.log(`[Odoo] Found existing sales order ${orderId} for event ${data.calendarEventId}`);
+        }
+      }
 
-      console.log(`[Odoo] Created sales order with ID: ${orderId}`);
+      if (orderId === undefined) {
+        const orderData: any = {
+          partner_id: data.partnerId,
+          date_order: this.formatDateForOdoo(new Date()),
+          origin,
+        };
+        orderId = await this.executeKw(
+          "sale.order",
+          "create",
+          [orderData]
+        ) as number;
+        console.log(`[Odoo] Created sales order with ID: ${orderId}`);
+      }
 
       // Create order lines for each appointment type/product
       for (const type of appointmentTypes) {
         if (type.product_id && Array.isArray(type.product_id) && type.product_id[0]) {
           const productId = type.product_id[0];
+          // Each line already on the order stands for one service
+          const existingIndex = existingProductIds.indexOf(productId);
+          if (existingIndex !== -1) {
+            existingProductIds.splice(existingIndex, 1);
+            continue;
+          }
           
           // Fetch product details to get price
           const product = await this.executeKw(
@@ -556,6 +713,9 @@ export class OdooService {
     startTime: string;
     endTime: string;
     staffId: string;
+    partnerId?: number;
+    // Recurrence fields (recurrency, interval, end_type...) for a recurring booking
+    recurrence?: Record<string, any>;
   }): Promise<any> {
     try {
       // Format dates for Odoo (YYYY-MM-DD HH:MM:SS) using UTC
@@ -587,6 +747,15 @@ export class OdooService {
         appointment_resource_id: parseInt(data.staffId),
       };
 
+      // Add the customer as attendee so syncs can resolve their contact details
+      if (data.partnerId) {
+        eventData.partner_ids = [[6, 0, [data.partnerId]]];
+      }
+
+      if (data.recurrence) {
+        Object.assign(eventData, data.recurrence);
+      }
+
       const eventId = await this.executeKw(
         "calendar.event",
         "create",
@@ -608,6 +777,28 @@ export class OdooService {
     }
   }
 
+  // Every event Odoo generated for the series the given event belongs to, oldest first.
+  // A non-recurring event is returned on its own.
+  async fetchRecurrenceEvents(eventId: number): Promise<{ id: number; start: string; stop: string; recurrence_id: [number, string] | false }[]> {
+    try {
+      const fields = ["id", "start", "stop", "recurrence_id"];
+      const [event] = await this.executeKw("calendar.event", "read", [[eventId]], { fields });
+      if (!event || !Array.isArray(event.recurrence_id)) {
+        return event ? [event] : [];
+      }
+
+      return await this.executeKw(
+        "calendar.event",
+        "search_read",
+        [[["recurrence_id", "=", event.recurrence_id[0]]]],
+        { fields, order: "start ASC" }
+      );
+    } catch (error) {
+      console.error("Failed to fetch recurrence events from Odoo:", error);
+      throw error;
+    }
+  }
+
   async updateCategoryColor(categoryId: number, colorIndex: number): Promise<boolean> {
     try {
       const result = await this.executeKw(
@@ -0,0 +1,178 @@
+import { storage } from "../storage";
+import { odooService } from "./odoo";
+import { MAX_OUTBOX_ATTEMPTS, type OdooOutboxItem } from "@shared/schema";
+
+export type OutboxOperation =
+  | { operation: "update"; odooEventId: number; appointmentId?: string | null; payload: Record<string, any> }
+  | { operation: "delete"; odooEventId: number; appointmentId?: string | null; payload?: Record<string, any> }
+  | { operation: "create_sales_order"; odooEventId: number; appointmentId?: string | null; payload: { partnerId: number; appointmentTypeIds: number[] } };
+
+export interface PushResult {
+  synced: boolean;
+  queued: boolean;
+}
+
+// Retry delays grow 1, 2, 4, 8... minutes, capped at one hour
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export class OutboxService {
+  private draining = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  // Sends a write to Odoo, or queues it when Odoo is unreachable. Writes for an event
+  // that already has queued work are queued behind it so they are applied in order.
+  async pushOrQueue(op: OutboxOperation): Promise<PushResult> {
+    const pending = await this.getPendingForEvent(op.odooEventId);
+    if (pending.length > 0) {
+      await this.enqueue(op, pending);
+      return { synced: false, queued: true };
+    }
+
+    try {
+      await this.execute(op.operation, op.odooEventId, op.payload ?? {});
+      return { synced: true, queued: false };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Outbox] Odoo ${op.operation} for event ${op.odooEventId} failed, queueing for retry:`, message);
+      await this.enqueue(op, [], message);
+      return { synced: false, queued: true };
+    }
+  }
+
+  // Queued writes, pending and failed
+  async getItems(): Promise<OdooOutboxItem[]> {
+    return storage.getOutboxItems();
+  }
+
+  // Odoo event ids with queued event edits; a pull sync must not overwrite these locally.
+  // Failed items no longer hold the event back: Odoo's version wins again.
+  async getPendingEventIds(): Promise<Set<number>> {
+    const items = await this.getPendingItems();
+    return new Set(
+      items
+        .filter(item => item.operation === "update" || item.operation === "delete")
+        .map(item => item.odooEventId)
+    );
+  }
+
+  // Retries every pending item whose backoff has elapsed, oldest first. Forced, it retries
+  // every item, failed ones included. Once an item for an event fails, later items for
+  // that event wait so they are never applied out of order; an item that has failed
+  // MAX_OUTBOX_ATTEMPTS times is marked failed.
+  async drain({ force = false }: { force?: boolean } = {}): Promise<{ sent: number; failed: number }> {
+    if (this.draining) return { sent: 0, failed: 0 };
+    this.draining = true;
+
+    const result = { sent: 0, failed: 0 };
+    const blockedEvents = new Set<number>();
+
+    try {
+      const items = force ? await storage.getOutboxItems() : await this.getPendingItems();
+      const now = new Date();
+
+      for (const item of items) {
+        if (blockedEvents.has(item.odooEventId)) continue;
+        if (!force && item.nextAttemptAt > now) {
+          blockedEvents.add(item.odooEventId);
+          continue;
+        }
+
+        try {
+          await this.execute(item.operation, item.odooEventId, JSON.parse(item.payload));
+          await storage.deleteOutboxItem(item.id);
+          result.sent++;
+        } catch (error) {
+          const attempts = item.attempts + 1;
+          const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+          const lastError = error instanceof Error ? error.message : String(error);
+          const status = attempts >= MAX_OUTBOX_ATTEMPTS ? "failed" : "pending";
+          if (status === "failed" && item.status !== "failed") {
+            console.error(`[Outbox] Giving up on ${item.operation} for event ${item.odooEventId} after ${attempts} attempts:`, lastError);
+          }
+          await storage.updateOutboxItem(item.id, {
+            attempts,
+            status,
+            lastError,
+            nextAttemptAt: new Date(Date.now() + delay),
+          });
+          blockedEvents.add(item.odooEventId);
+          result.failed++;
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+
+    if (result.sent > 0 || result.failed > 0) {
+      console.log(`[Outbox] Drained: ${result.sent} sent, ${result.failed} still pending`);
+    }
+    return result;
+  }
+
+  start(intervalMs: number = 60 * 1000) {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.drain().catch(error => console.error("[Outbox] Drain failed:", error));
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async getPendingItems(): Promise<OdooOutboxItem[]> {
+    const items = await storage.getOutboxItems();
+    return items.filter(item => item.status === "pending");
+  }
+
+  private async getPendingForEvent(odooEventId: number): Promise<OdooOutboxItem[]> {
+    const items = await this.getPendingItems();
+    return items.filter(item => item.odooEventId === odooEventId);
+  }
+
+  private async enqueue(op: OutboxOperation, pending: OdooOutboxItem[], lastError?: string) {
+    // Coalesce: queued updates are folded into a newer update, and a delete makes them moot
+    let payload = op.payload ?? {};
+    if (op.operation === "update" || op.operation === "delete") {
+      for (const item of pending) {
+        if (item.operation === "update") {
+          if (op.operation === "update") {
+            payload = { ...JSON.parse(item.payload), ...payload };
+          }
+          await storage.deleteOutboxItem(item.id);
+        }
+      }
+    }
+
+    await storage.createOutboxItem({
+      operation: op.operation,
+      odooEventId: op.odooEventId,
+      appointmentId: op.appointmentId ?? null,
+      payload: JSON.stringify(payload),
+      lastError: lastError ?? null,
+      nextAttemptAt: new Date(Date.now() + (lastError ? BASE_RETRY_DELAY_MS : 0)),
+    });
+  }
+
+  private async execute(operation: string, odooEventId: number, payload: any) {
+    switch (operation) {
+      case "update":
+        await odooService.updateAppointment(odooEventId, payload);
+        break;
+      case "delete":
+        await odooService.deleteAppointment(odooEventId);
+        break;
+      case "create_sales_order":
+        await odooService.createSalesOrder({ ...payload, calendarEventId: odooEventId });
+        break;
+      default:
+        throw new Error(`Unknown outbox operation: ${operation}`);
+    }
+  }
+}
+
+export const outboxService = new OutboxService();
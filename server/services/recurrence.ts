@@ -0,0 +1,78 @@
+import { storage } from "../storage";
+import { SALON_TIMEZONE, salonParts, salonTime } from "../timezone";
+import { cancellableStatuses, MAX_OCCURRENCES, type Appointment, type RecurrenceRule, type SeriesScope } from "@shared/schema";
+
+export interface Occurrence {
+  start: Date;
+  end: Date;
+}
+
+const RRULE_DAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const ODOO_WEEKDAY_FIELDS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+export class RecurrenceService {
+  // Every occurrence of a weekly series starting with the given slot. Weeks are stepped in
+  // salon days, so occurrences keep their time of day across daylight saving changes. Stops
+  // one past MAX_OCCURRENCES at most, so callers can refuse series that are too long.
+  expand(start: Date, end: Date, rule: RecurrenceRule): Occurrence[] {
+    const duration = end.getTime() - start.getTime();
+    const first = salonParts(start);
+    // Seconds and milliseconds aren't wall-clock fields salonTime takes; carry them over
+    const remainderMs = start.getTime() % 60000;
+    // The series runs through the whole until day, so it ends at the salon midnight after it
+    const untilEnd = rule.endType === "end_date" && rule.until
+      ? salonTime(Number(rule.until.slice(0, 4)), Number(rule.until.slice(5, 7)) - 1, Number(rule.until.slice(8, 10)) + 1)
+      : null;
+    const total = rule.endType === "count" && rule.count ? rule.count : Infinity;
+
+    const occurrences: Occurrence[] = [];
+    for (let index = 0; index < total && occurrences.length <= MAX_OCCURRENCES; index++) {
+      const wallClock = salonTime(first.year, first.month, first.day + index * rule.intervalWeeks * 7, first.hours, first.minutes);
+      const occurrenceStart = new Date(wallClock.getTime() + remainderMs);
+      if (untilEnd && occurrenceStart >= untilEnd) break;
+      occurrences.push({ start: occurrenceStart, end: new Date(occurrenceStart.getTime() + duration) });
+    }
+    return occurrences;
+  }
+
+  // RFC 5545 form of the rule, as stored on each occurrence and shown in Odoo
+  toRRule(start: Date, rule: RecurrenceRule): string {
+    const parts = ["FREQ=WEEKLY", `INTERVAL=${rule.intervalWeeks}`, `BYDAY=${RRULE_DAYS[salonParts(start).weekday]}`];
+    if (rule.endType === "count") {
+      parts.push(`COUNT=${rule.count}`);
+    } else {
+      parts.push(`UNTIL=${rule.until!.replace(/-/g, "")}T235959`);
+    }
+    return parts.join(";");
+  }
+
+  // calendar.event fields that make Odoo generate the series from the first event, in the
+  // salon's time zone so its occurrences keep their time of day across DST as well
+  toOdooFields(start: Date, rule: RecurrenceRule): Record<string, any> {
+    return {
+      recurrency: true,
+      event_tz: SALON_TIMEZONE,
+      rrule_type: "weekly",
+      interval: rule.intervalWeeks,
+      end_type: rule.endType,
+      ...(rule.endType === "count" ? { count: rule.count } : { until: rule.until }),
+      [ODOO_WEEKDAY_FIELDS[salonParts(start).weekday]]: true,
+    };
+  }
+
+  // The occurrences an edit of `appointment` applies to, oldest first. Occurrences that
+  // are cancelled or already under way are left alone; the appointment itself is always included.
+  async selectOccurrences(appointment: Appointment, scope: SeriesScope): Promise<Appointment[]> {
+    if (scope === "occurrence" || !appointment.odooRecurrenceId) return [appointment];
+
+    const series = await storage.getAppointmentsByRecurrenceId(appointment.odooRecurrenceId);
+    const from = new Date(appointment.startTime);
+    return series.filter(occurrence =>
+      occurrence.id === appointment.id ||
+      ((cancellableStatuses as readonly string[]).includes(occurrence.status) &&
+        (scope === "all" || new Date(occurrence.startTime) >= from))
+    );
+  }
+}
+
+export const recurrenceService = new RecurrenceService();
@@ -0,0 +1,132 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import { createFakeOdooServer } from "../dev/fakeOdoo";
+import { buildOdooFixtures } from "../dev/odooFixtures";
+
+// Sync and booking end-to-end against the fake Odoo server. The services read ODOO_URL
+// when they're first imported, so they're loaded once the server is listening.
+let fakeOdoo: ReturnType<typeof createFakeOdooServer>;
+let storage: typeof import("../storage").storage;
+let odooService: typeof import("./odoo").odooService;
+let syncService: typeof import("./sync").syncService;
+
+// Run outside UTC, where reading Odoo's zoneless UTC datetimes as local time would shift them
+process.env.TZ = "Europe/Amsterdam";
+
+// The fixtures' week starts on Monday 2 March 2026
+const window = { start: "2026-02-23T00:00:00Z", end: "2026-03-16T00:00:00Z" };
+
+before(async () => {
+  fakeOdoo = createFakeOdooServer({ port: 0, fixtures: buildOdooFixtures(new Date("2026-03-04T12:00:00Z")) });
+  await new Promise(resolve => fakeOdoo.server.httpServer.once("listening", resolve));
+  const { port } = fakeOdoo.server.httpServer.address() as AddressInfo;
+
+  Object.assign(process.env, {
+    ODOO_URL: `http://127.0.0.1:${port}`,
+    ODOO_DB: "fake",
+    ODOO_USERNAME: "admin",
+    ODOO_API_KEY: "admin",
+  });
+  ({ storage } = await import("../storage"));
+  ({ odooService } = await import("./odoo"));
+  ({ syncService } = await import("./sync"));
+});
+
+after(async () => {
+  await fakeOdoo.close();
+});
+
+describe("sync against the fake Odoo server", () => {
+  it("pulls staff and events on the first sync", async () => {
+    const result = await syncService.run(window);
+    assert.equal(result.mode, "full");
+    assert.equal(result.synced.created, 5);
+
+    const appointment = await storage.getAppointmentByOdooEventId(100);
+    assert.equal(appointment?.customerName, "Emma Johnson");
+    assert.equal(appointment?.service, "Haircut & Styling");
+    assert.equal(appointment?.staffId, (await storage.getStaffByOdooUserId(1))?.id);
+    assert.equal((await storage.getAllStaff()).length, 3);
+  });
+
+  it("only fetches changed events once the high-water mark is set, and removes deleted ones", async () => {
+    fakeOdoo.store.execute("calendar.event", "write", [[102], { description: "Bring photos" }], {});
+    fakeOdoo.store.execute("calendar.event", "unlink", [[103]], {});
+
+    const result = await syncService.run(window);
+    assert.equal(result.mode, "incremental");
+    assert.equal(result.synced.deleted, 1);
+    assert.equal((await storage.getAppointmentByOdooEventId(102))?.notes, "Bring photos");
+    assert.equal(await storage.getAppointmentByOdooEventId(103), undefined);
+  });
+
+  it("mirrors public holidays and personal leaves of bookable staff", async () => {
+    const leaves = await storage.getLeavesByDateRange(new Date(window.start), new Date(window.end));
+    const mike = await storage.getStaffByOdooUserId(2);
+
+    assert.deepEqual(leaves.map(leave => [leave.name, leave.staffId]).sort(), [
+      ["Dentist", mike?.id],
+      ["Public Holiday", null],
+    ]);
+    // Mike's dentist visit is 13:00-17:00 salon time on Wednesday
+    const dentist = leaves.find(leave => leave.name === "Dentist");
+    assert.equal(dentist?.startTime.toISOString(), "2026-03-04T12:00:00.000Z");
+    assert.equal(dentist?.endTime.toISOString(), "2026-03-04T16:00:00.000Z");
+
+    fakeOdoo.store.execute("resource.calendar.leaves", "unlink", [[2]], {});
+    await syncService.run(window);
+    const remaining = await storage.getLeavesByDateRange(new Date(window.start), new Date(window.end));
+    assert.deepEqual(remaining.map(leave => leave.name), ["Public Holiday"]);
+  });
+
+  it("keeps a booked and rescheduled time through the next sync", async () => {
+    const event = await odooService.createAppointment({
+      customerName: "Olivia Brown",
+      appointmentTypeId: 3,
+      startTime: "2026-03-05T14:00:00.000Z",
+      endTime: "2026-03-05T14:30:00.000Z",
+      staffId: "3",
+      partnerId: 11,
+    });
+
+    await syncService.run(window);
+    const appointment = await storage.getAppointmentByOdooEventId(event.id);
+    assert.equal(appointment?.customerName, "Olivia Brown");
+    assert.equal(appointment?.staffId, (await storage.getStaffByOdooUserId(3))?.id);
+    assert.equal(appointment?.startTime.toISOString(), "2026-03-05T14:00:00.000Z");
+    assert.equal(appointment?.endTime.toISOString(), "2026-03-05T14:30:00.000Z");
+
+    await odooService.updateAppointment(event.id, {
+      start: "2026-03-06T09:00:00.000Z",
+      stop: "2026-03-06T09:30:00.000Z",
+    });
+    await syncService.run(window);
+    const moved = await storage.getAppointmentByOdooEventId(event.id);
+    assert.equal(moved?.startTime.toISOString(), "2026-03-06T09:00:00.000Z");
+    assert.equal(moved?.endTime.toISOString(), "2026-03-06T09:30:00.000Z");
+  });
+});
+
+describe("fake Odoo domains", () => {
+  it("faults on an in/not in operand that isn't a list", () => {
+    assert.equal(fakeOdoo.store.execute("calendar.event", "search_count", [[["id", "in", [100, 101]]]], {}), 2);
+    assert.throws(
+      () => fakeOdoo.store.execute("calendar.event", "search", [[["id", "not in", 100]]], {}),
+      /expects a list/,
+    );
+  });
+});
+
+describe("sales orders against the fake Odoo server", () => {
+  it("creates one order per event and only adds missing lines on a retry", async () => {
+    const order = { partnerId: 10, appointmentTypeIds: [1, 3], calendarEventId: 100 };
+    const orderId = await odooService.createSalesOrder(order);
+    assert.equal(await odooService.createSalesOrder(order), orderId);
+
+    const orders = fakeOdoo.store.execute("sale.order", "search_read", [[["origin", "=", "calendar.event,100"]]], {});
+    assert.equal(orders.length, 1);
+    const lines = fakeOdoo.store.execute("sale.order.line", "search_read", [[["order_id", "=", orderId]]], {});
+    assert.deepEqual(lines.map((line: { product_id: [number, string] }) => line.product_id[0]).sort(), [1, 3]);
+  });
+});
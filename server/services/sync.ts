@@ -0,0 +1,378 @@
+import { storage } from "../storage";
+import { odooService, parseOdooDatetime, type OdooAppointment } from "./odoo";
+import { outboxService } from "./outbox";
+import { auditService, ODOO_ACTOR } from "./audit";
+
+export interface SyncOptions {
+  start?: string;
+  end?: string;
+  full?: boolean;
+  trigger?: "manual" | "scheduled";
+}
+
+export interface SyncResult {
+  mode: "incremental" | "full";
+  window: { start: string; end: string };
+  synced: { created: number; updated: number; deleted: number; cancelled: number };
+  totalOdooAppointments: number;
+}
+
+export class SyncService {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  // Runs one sync and records it in the sync_runs history, whether it succeeds or not
+  async run(options: SyncOptions = {}): Promise<SyncResult> {
+    if (this.running) {
+      throw new Error("Sync already in progress");
+    }
+
+    // The lock covers recording the run too, so a failing insert can't leave it taken
+    this.running = true;
+    try {
+      return await this.recordedRun(options);
+    } finally {
+      this.running = false; // Release the sync lock
+    }
+  }
+
+  private async recordedRun(options: SyncOptions): Promise<SyncResult> {
+    const run = await storage.createSyncRun({
+      trigger: options.trigger ?? "manual",
+      status: "running",
+    });
+
+    try {
+      const result = await this.syncWindow(options);
+      await storage.updateSyncRun(run.id, {
+        status: "success",
+        mode: result.mode,
+        windowStart: new Date(result.window.start),
+        windowEnd: new Date(result.window.end),
+        created: result.synced.created,
+        updated: result.synced.updated,
+        deleted: result.synced.deleted,
+        cancelled: result.synced.cancelled,
+        finishedAt: new Date(),
+      });
+      return result;
+    } catch (error) {
+      console.error("Odoo sync failed:", error);
+      await storage.updateSyncRun(run.id, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        finishedAt: new Date(),
+      });
+      throw error;
+    }
+  }
+
+  // Periodic background sync; ticks that land while a sync is running are skipped
+  startScheduler(intervalMinutes: number) {
+    this.stopScheduler();
+    if (!intervalMinutes || intervalMinutes <= 0) {
+      console.log("[Sync] Background sync disabled");
+      return;
+    }
+
+    console.log(`[Sync] Background sync every ${intervalMinutes} min`);
+    const tick = () => {
+      if (this.running) return;
+      this.run({ trigger: "scheduled" }).catch(() => {
+        // Already logged and recorded in the run history
+      });
+    };
+
+    // Sync once at startup so a fresh server doesn't wait a full interval
+    tick();
+    this.timer = setInterval(tick, intervalMinutes * 60 * 1000);
+  }
+
+  stopScheduler() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async syncWindow({ start, end, full }: SyncOptions): Promise<SyncResult> {
+    // Default: 30 days back, 90 days forward to capture past and future appointments
+    const defaultStart = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const defaultEnd = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000);
+    
+    const startDate = start ? new Date(start).toISOString() : defaultStart.toISOString();
+    const endDate = end ? new Date(end).toISOString() : defaultEnd.toISOString();
+
+    // Fetch resources (employees) from Odoo
+    const odooResources = await odooService.fetchResources();
+    
+    // Sync staff members based on resources, remembering which local staff member each
+    // Odoo resource.resource belongs to so leaves can be matched to them
+    const staffByResourceId = new Map<number, string>();
+    const calendarIds = new Set<number>();
+    for (const resource of odooResources) {
+      const existingStaff = await storage.getStaffByOdooUserId(resource.id);
+      
+      // Fetch working hours from resource calendar if available
+      let workingHours = null;
+      let resourceCalendarId = null;
+      
+      if (resource.resource_calendar_id && Array.isArray(resource.resource_calendar_id)) {
+        resourceCalendarId = resource.resource_calendar_id[0];
+        try {
+          const calendar = await odooService.fetchResourceCalendar(resourceCalendarId);
+          if (calendar && calendar.attendances) {
+            // Convert Odoo attendances to a simplified format
+            workingHours = calendar.attendances.map((att: any) => ({
+              dayOfWeek: parseInt(att.dayofweek), // 0=Monday, 6=Sunday in Odoo
+              hourFrom: att.hour_from,
+              hourTo: att.hour_to,
+              dayPeriod: att.day_period,
+              name: att.name
+            }));
+          }
+        } catch (calendarError) {
+          console.warn(`Failed to fetch calendar for resource ${resource.id}:`, calendarError);
+        }
+      }
+      
+      const staffData = {
+        odooUserId: resource.id,
+        name: resource.name,
+        email: resource.employee_id ? `${resource.name.toLowerCase().replace(/\s+/g, '.')}@salon.com` : "",
+        role: "Stylist",
+        color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
+        isActive: true,
+        resourceCalendarId,
+        workingHours: workingHours ? JSON.stringify(workingHours) : null,
+      };
+      
+      let localStaffId: string;
+      if (!existingStaff) {
+        localStaffId = (await storage.createStaff(staffData)).id;
+      } else {
+        // Update working hours if they've changed
+        await storage.updateStaff(existingStaff.id, {
+          resourceCalendarId,
+          workingHours: workingHours ? JSON.stringify(workingHours) : existingStaff.workingHours,
+        });
+        localStaffId = existingStaff.id;
+      }
+
+      if (Array.isArray(resource.resource_id)) staffByResourceId.set(resource.resource_id[0], localStaffId);
+      if (resourceCalendarId) calendarIds.add(resourceCalendarId);
+    }
+
+    await this.syncLeaves(Array.from(calendarIds), staffByResourceId, startDate, endDate);
+
+    // Only transfer events modified since the previous sync unless a full re-fetch is requested
+    const settings = await storage.getCalendarSettings();
+    const changedSince = full ? null : settings?.lastOdooWriteDate ?? null;
+
+    // Push queued local edits first, and leave events that still have queued edits
+    // alone so the pull doesn't overwrite them with Odoo's stale copy
+    await outboxService.drain();
+    const pendingEventIds = await outboxService.getPendingEventIds();
+
+    // Incremental syncs fetch every changed event, not only those in the window: the
+    // high-water mark is global, so a change skipped here would never be fetched again
+    const odooAppointments = changedSince
+      ? await odooService.fetchChangedAppointments(changedSince)
+      : await odooService.fetchAppointments(startDate, endDate);
+
+    const syncedCount = { created: 0, updated: 0, deleted: 0, cancelled: 0 };
+    await this.applyOdooEvents(odooAppointments, pendingEventIds, syncedCount);
+
+    // Events in the window that were never stored, e.g. booked far ahead and last written
+    // before the high-water mark, are fetched now that they're in range
+    const odooEventStates = await odooService.fetchAppointmentIds(startDate, endDate);
+    const fetchedIds = new Set(odooAppointments.map(odooApp => odooApp.id));
+    const missingIds: number[] = [];
+    for (const event of odooEventStates) {
+      if (!event.active || fetchedIds.has(event.id) || pendingEventIds.has(event.id)) continue;
+      if (!(await storage.getAppointmentByOdooEventId(event.id))) missingIds.push(event.id);
+    }
+    const missingAppointments = await odooService.fetchAppointmentsByIds(missingIds);
+    await this.applyOdooEvents(missingAppointments, pendingEventIds, syncedCount);
+
+    // Reconcile the window: anything we hold locally that Odoo no longer has is removed,
+    // anything Odoo archived (active=false) is marked cancelled
+    const activeById = new Map(odooEventStates.map(event => [event.id, event.active]));
+    const localAppointments = await storage.getAppointmentsByDateRange(new Date(startDate), new Date(endDate));
+
+    for (const localApp of localAppointments) {
+      if (pendingEventIds.has(localApp.odooEventId)) continue;
+
+      const active = activeById.get(localApp.odooEventId);
+      if (active === undefined) {
+        await storage.deleteAppointment(localApp.id);
+        syncedCount.deleted++;
+        await auditService.record({
+          actor: ODOO_ACTOR, action: "deleted", appointment: localApp, before: localApp, odooStatus: "odoo",
+        });
+      } else if (!active && localApp.status !== "cancelled") {
+        const cancelled = await storage.updateAppointment(localApp.id, { status: "cancelled" });
+        syncedCount.cancelled++;
+        await auditService.record({
+          actor: ODOO_ACTOR, action: "cancelled", appointment: localApp,
+          before: localApp, after: cancelled, odooStatus: "odoo",
+        });
+      }
+    }
+
+    // Advance the write_date high-water mark. Odoo's format sorts lexicographically,
+    // so plain string comparison picks the latest one. Only an incremental pull sees
+    // every change up to the mark; a full sync covers just its window, so it leaves an
+    // existing mark alone and only sets the first one.
+    let lastOdooWriteDate = settings?.lastOdooWriteDate ?? null;
+    if (changedSince || !lastOdooWriteDate) {
+      for (const odooApp of odooAppointments) {
+        if (odooApp.write_date && (!lastOdooWriteDate || odooApp.write_date > lastOdooWriteDate)) {
+          lastOdooWriteDate = odooApp.write_date;
+        }
+      }
+    }
+
+    // Update last sync time
+    await storage.updateCalendarSettings({
+      lastOdooSync: new Date(),
+      lastOdooWriteDate,
+    });
+
+    return {
+      mode: changedSince ? "incremental" : "full",
+      window: { start: startDate, end: endDate },
+      synced: syncedCount,
+      totalOdooAppointments: odooAppointments.length + missingAppointments.length,
+    };
+  }
+
+  // Creates or updates the local copy of each Odoo event, except those with queued local edits
+  private async applyOdooEvents(
+    odooEvents: OdooAppointment[],
+    pendingEventIds: Set<number>,
+    syncedCount: SyncResult["synced"],
+  ) {
+    // Resolve every attendee and organizer in one batch read instead of per event
+    const partnerIds = new Set<number>();
+    for (const odooApp of odooEvents) {
+      (odooApp.partner_ids || []).forEach(id => partnerIds.add(id));
+      if (Array.isArray(odooApp.partner_id)) partnerIds.add(odooApp.partner_id[0]);
+    }
+    const partners = await odooService.fetchPartnersByIds(Array.from(partnerIds));
+    const partnersById = new Map(partners.map(partner => [partner.id, partner]));
+
+    for (const odooApp of odooEvents) {
+      if (pendingEventIds.has(odooApp.id)) continue;
+
+      const existingAppointment = await storage.getAppointmentByOdooEventId(odooApp.id);
+      
+      // Get staff using appointment_resource_id
+      let staff = null;
+      if (odooApp.appointment_resource_id && Array.isArray(odooApp.appointment_resource_id)) {
+        staff = await storage.getStaffByOdooUserId(odooApp.appointment_resource_id[0]);
+      }
+
+      // The customer is the attendee that isn't the organizer (partner_id is who scheduled it)
+      const organizerId = Array.isArray(odooApp.partner_id) ? odooApp.partner_id[0] : null;
+      const attendeeIds = odooApp.partner_ids || [];
+      const customerId = attendeeIds.find(id => id !== organizerId) ?? attendeeIds[0] ?? organizerId;
+      const customer = customerId ? partnersById.get(customerId) : undefined;
+
+      let customerName = "Unknown Customer";
+      if (customer) {
+        customerName = customer.name;
+      } else if (Array.isArray(odooApp.partner_id)) {
+        customerName = odooApp.partner_id[1];
+      }
+
+      const appointmentData = {
+        odooEventId: odooApp.id,
+        name: odooApp.name || "Untitled Appointment",
+        customerName: customerName,
+        customerEmail: customer?.email || null,
+        customerPhone: customer?.phone || customer?.mobile || null,
+        customerMobile: customer?.mobile || null,
+        odooPartnerId: customer?.id ?? null,
+        service: odooApp.appointment_type_id && Array.isArray(odooApp.appointment_type_id) 
+          ? odooApp.appointment_type_id[1] 
+          : odooApp.name || "General Service",
+        startTime: parseOdooDatetime(odooApp.start),
+        endTime: parseOdooDatetime(odooApp.stop),
+        duration: odooApp.duration ? odooApp.duration * 60 : 60, // Convert hours to minutes
+        staffId: staff?.id,
+        // Only active events are fetched, so anything cancelled here was restored in Odoo.
+        // Lifecycle statuses (checked in, completed...) only exist locally and are kept.
+        status: existingAppointment && existingAppointment.status !== "cancelled"
+          ? existingAppointment.status
+          : "confirmed",
+        cancellationReason: null,
+        cancelledAt: null,
+        notes: odooApp.description || "",
+        categoryColor: odooApp.categoryColor || null,
+        odooRecurrenceId: Array.isArray(odooApp.recurrence_id) ? odooApp.recurrence_id[0] : null,
+        recurrenceRule: odooApp.rrule || null,
+        odooAppointmentTypeId: Array.isArray(odooApp.appointment_type_id) ? odooApp.appointment_type_id[0] : null,
+      };
+
+      if (existingAppointment) {
+        const updated = await storage.updateAppointment(existingAppointment.id, appointmentData);
+        syncedCount.updated++;
+        if (updated && auditService.hasAuditedChanges(existingAppointment, updated)) {
+          await auditService.record({
+            actor: ODOO_ACTOR, action: "updated", appointment: updated,
+            before: existingAppointment, after: updated, odooStatus: "odoo",
+          });
+        }
+      } else {
+        const created = await storage.createAppointment(appointmentData);
+        syncedCount.created++;
+        await auditService.record({
+          actor: ODOO_ACTOR, action: "created", appointment: created, after: created, odooStatus: "odoo",
+        });
+      }
+    }
+  }
+
+  // Mirrors Odoo's resource.calendar.leaves for the window: public holidays of the staff's
+  // calendars and each staff member's own time off. Leaves gone from Odoo are removed.
+  private async syncLeaves(calendarIds: number[], staffByResourceId: Map<number, string>, startDate: string, endDate: string) {
+    const odooLeaves = await odooService.fetchLeaves(calendarIds, Array.from(staffByResourceId.keys()), startDate, endDate);
+
+    const seen = new Set<number>();
+    for (const odooLeave of odooLeaves) {
+      const staffId = odooLeave.resource_id ? staffByResourceId.get(odooLeave.resource_id[0]) : null;
+      if (staffId === undefined) continue; // personal leave of someone who isn't bookable staff
+
+      seen.add(odooLeave.id);
+      const leaveData = {
+        odooLeaveId: odooLeave.id,
+        name: odooLeave.name || "Time off",
+        staffId,
+        resourceCalendarId: odooLeave.calendar_id ? odooLeave.calendar_id[0] : null,
+        startTime: parseOdooDatetime(odooLeave.date_from),
+        endTime: parseOdooDatetime(odooLeave.date_to),
+      };
+
+      const existing = await storage.getLeaveByOdooId(odooLeave.id);
+      if (existing) {
+        await storage.updateLeave(existing.id, leaveData);
+      } else {
+        await storage.createLeave(leaveData);
+      }
+    }
+
+    const localLeaves = await storage.getLeavesByDateRange(new Date(startDate), new Date(endDate));
+    for (const leave of localLeaves) {
+      if (!seen.has(leave.odooLeaveId)) {
+        await storage.deleteLeave(leave.id);
+      }
+    }
+  }
+}
+
+export const syncService = new SyncService();
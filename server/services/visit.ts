@@ -0,0 +1,53 @@
+import { storage } from "../storage";
+import type { OdooAppointmentType } from "./odoo";
+import { cancellableStatuses, type Appointment, type Staff } from "@shared/schema";
+
+export interface PlannedSegment {
+  appointmentType: OdooAppointmentType;
+  staff: Staff;
+  start: Date;
+  end: Date;
+  durationMinutes: number;
+}
+
+export class VisitService {
+  // Lays the services of a booking out back to back from `start`, in the order given.
+  // appointment_duration is in hours.
+  planSegments(start: Date, segments: { appointmentType: OdooAppointmentType; staff: Staff }[]): PlannedSegment[] {
+    let cursor = start.getTime();
+    return segments.map(({ appointmentType, staff }) => {
+      const durationMinutes = Math.round((appointmentType.appointment_duration || 0) * 60);
+      const segmentStart = new Date(cursor);
+      cursor += durationMinutes * 60 * 1000;
+      return { appointmentType, staff, start: segmentStart, end: new Date(cursor), durationMinutes };
+    });
+  }
+
+  // Whether the staff member can perform the service; no resource_ids means anyone can
+  canPerform(staff: Staff, appointmentType: OdooAppointmentType): boolean {
+    const resourceIds: number[] | undefined = appointmentType.resource_ids;
+    return !resourceIds || resourceIds.length === 0 || resourceIds.includes(staff.odooUserId);
+  }
+
+  // The given appointments plus the other segments of their visits, so a visit is moved,
+  // cancelled or restored as a whole. Only segments in one of `statuses` are added: by
+  // default those that can still be changed, leaving cancelled or under way ones alone.
+  async withVisitSegments(
+    appointments: Appointment[],
+    statuses: readonly string[] = cancellableStatuses,
+  ): Promise<Appointment[]> {
+    const result = new Map(appointments.map(appointment => [appointment.id, appointment]));
+    const visitIds = new Set(appointments.flatMap(appointment => appointment.visitId ? [appointment.visitId] : []));
+
+    for (const visitId of Array.from(visitIds)) {
+      for (const segment of await storage.getAppointmentsByVisitId(visitId)) {
+        if (!result.has(segment.id) && statuses.includes(segment.status)) {
+          result.set(segment.id, segment);
+        }
+      }
+    }
+    return Array.from(result.values());
+  }
+}
+
+export const visitService = new VisitService();
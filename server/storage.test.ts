@@ -0,0 +1,264 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { InsertAppointment } from "@shared/schema";
+import { DatabaseStorage } from "./storage";
+
+// drizzle-kit's ESM build doesn't load under tsx, its CommonJS one does
+const { generateDrizzleJson, generateMigration }: typeof import("drizzle-kit/api") =
+  createRequire(import.meta.url)("drizzle-kit/api");
+
+// DatabaseStorage against an in-process Postgres (PGlite), with the tables created from
+// the Drizzle schema the same way `npm run db:push` would
+let client: PGlite;
+let storage: DatabaseStorage;
+
+before(async () => {
+  client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  storage = new DatabaseStorage(drizzle(client, { schema }));
+});
+
+after(async () => {
+  await client.close();
+});
+
+let nextOdooId = 1;
+
+const appointment = (values: Partial<InsertAppointment> = {}): InsertAppointment => ({
+  odooEventId: nextOdooId++,
+  name: "Jane Doe - Haircut",
+  customerName: "Jane Doe",
+  service: "Haircut",
+  startTime: new Date("2026-03-02T09:00:00Z"),
+  endTime: new Date("2026-03-02T10:00:00Z"),
+  duration: 60,
+  ...values,
+});
+
+describe("DatabaseStorage", () => {
+  it("creates, finds and updates users", async () => {
+    const user = await storage.createUser({ username: "zoe", password: "hash.salt", role: "admin" });
+    await storage.createUser({ username: "adam", password: "hash.salt" });
+
+    assert.equal((await storage.getUser(user.id))?.username, "zoe");
+    assert.equal((await storage.getUserByUsername("adam"))?.role, "receptionist");
+    assert.equal(await storage.getUserByUsername("nobody"), undefined);
+    assert.deepEqual((await storage.getAllUsers()).map(u => u.username), ["adam", "zoe"]);
+
+    const updated = await storage.updateUser(user.id, { role: "stylist" });
+    assert.equal(updated?.role, "stylist");
+    assert.equal(await storage.updateUser("missing", { role: "admin" }), undefined);
+  });
+
+  it("keeps staff by Odoo user id and lists only active staff", async () => {
+    const active = await storage.createStaff({ odooUserId: 101, name: "Lisa" });
+    const inactive = await storage.createStaff({ odooUserId: 102, name: "Mike", isActive: false });
+
+    assert.equal((await storage.getStaffByOdooUserId(101))?.id, active.id);
+    const listed = (await storage.getAllStaff()).map(member => member.id);
+    assert.ok(listed.includes(active.id));
+    assert.ok(!listed.includes(inactive.id));
+
+    assert.equal((await storage.updateStaff(active.id, { color: "#000000" }))?.color, "#000000");
+    assert.equal(await storage.deleteStaff(inactive.id), true);
+    assert.equal(await storage.deleteStaff(inactive.id), false);
+    assert.equal(await storage.getStaff(inactive.id), undefined);
+  });
+
+  it("creates, finds, updates and deletes appointments", async () => {
+    const created = await storage.createAppointment(appointment({ odooEventId: 5000 }));
+    assert.equal(created.status, "confirmed");
+    assert.ok(created.lastSynced instanceof Date);
+
+    assert.equal((await storage.getAppointment(created.id))?.odooEventId, 5000);
+    assert.equal((await storage.getAppointmentByOdooEventId(5000))?.id, created.id);
+
+    const updated = await storage.updateAppointment(created.id, { status: "cancelled", cancellationReason: "illness" });
+    assert.equal(updated?.status, "cancelled");
+    assert.equal(updated?.cancellationReason, "illness");
+    assert.equal(await storage.updateAppointment("missing", { status: "cancelled" }), undefined);
+
+    assert.equal(await storage.deleteAppointment(created.id), true);
+    assert.equal(await storage.getAppointment(created.id), undefined);
+    assert.equal(await storage.deleteAppointment(created.id), false);
+  });
+
+  it("finds appointments overlapping a range, leaving out touching ones", async () => {
+    const inside = await storage.createAppointment(appointment({
+      startTime: new Date("2026-04-01T10:00:00Z"),
+      endTime: new Date("2026-04-01T11:00:00Z"),
+    }));
+    const across = await storage.createAppointment(appointment({
+      startTime: new Date("2026-04-01T08:30:00Z"),
+      endTime: new Date("2026-04-01T09:30:00Z"),
+    }));
+    const touching = await storage.createAppointment(appointment({
+      startTime: new Date("2026-04-01T12:00:00Z"),
+      endTime: new Date("2026-04-01T13:00:00Z"),
+    }));
+
+    const found = (await storage.getAppointmentsByDateRange(
+      new Date("2026-04-01T09:00:00Z"),
+      new Date("2026-04-01T12:00:00Z"),
+    )).map(apt => apt.id);
+    assert.ok(found.includes(inside.id));
+    assert.ok(found.includes(across.id));
+    assert.ok(!found.includes(touching.id));
+  });
+
+  it("lists a series by start and a visit by segment", async () => {
+    const second = await storage.createAppointment(appointment({
+      odooRecurrenceId: 77,
+      startTime: new Date("2026-05-08T09:00:00Z"),
+      endTime: new Date("2026-05-08T10:00:00Z"),
+    }));
+    const first = await storage.createAppointment(appointment({ odooRecurrenceId: 77 }));
+    assert.deepEqual((await storage.getAppointmentsByRecurrenceId(77)).map(apt => apt.id), [first.id, second.id]);
+
+    const blowdry = await storage.createAppointment(appointment({ visitId: "visit-1", visitSegment: 1 }));
+    const haircut = await storage.createAppointment(appointment({ visitId: "visit-1", visitSegment: 0 }));
+    assert.deepEqual((await storage.getAppointmentsByVisitId("visit-1")).map(apt => apt.id), [haircut.id, blowdry.id]);
+  });
+
+  describe("searchAppointments", () => {
+    const day = (time: string) => new Date(`2026-06-15T${time}:00Z`);
+    let lisaId: string;
+    let ids: Record<string, string>;
+
+    before(async () => {
+      lisaId = (await storage.createStaff({ odooUserId: 201, name: "Lisa Search" })).id;
+      const create = async (key: string, values: Partial<InsertAppointment>) =>
+        [key, (await storage.createAppointment(appointment(values))).id] as const;
+      ids = Object.fromEntries(await Promise.all([
+        create("anna", { customerName: "Anna de Vries", startTime: day("09:00"), endTime: day("10:00"), staffId: lisaId }),
+        create("bram", { customerName: "Bram", service: "Colouring", startTime: day("09:00"), endTime: day("10:00") }),
+        create("note", { customerName: "Carla", notes: "Wants a 50% trim", startTime: day("11:00"), endTime: day("12:00"), status: "completed" }),
+        create("late", { customerName: "Dirk", categoryColor: "#ff0000", startTime: day("15:00"), endTime: day("16:00"), staffId: lisaId }),
+      ]));
+    });
+
+    const search = async (filter: Parameters<DatabaseStorage["searchAppointments"]>[0], limit = 50) =>
+      (await storage.searchAppointments({ start: day("00:00"), end: day("23:59"), ...filter }, limit)).map(apt => apt.id);
+
+    it("matches text in the customer name, service and notes, ignoring case", async () => {
+      assert.deepEqual(await search({ text: "anna" }), [ids.anna]);
+      assert.deepEqual(await search({ text: "COLOUR" }), [ids.bram]);
+      assert.deepEqual(await search({ text: "trim" }), [ids.note]);
+    });
+
+    it("matches LIKE wildcards literally", async () => {
+      assert.deepEqual(await search({ text: "50%" }), [ids.note]);
+      assert.deepEqual(await search({ text: "_" }), []);
+    });
+
+    it("filters by status, staff member, category and date range", async () => {
+      assert.deepEqual(await search({ statuses: ["completed"] }), [ids.note]);
+      assert.deepEqual(await search({ staffIds: [lisaId] }), [ids.anna, ids.late]);
+      assert.deepEqual(await search({ categoryColor: "#ff0000" }), [ids.late]);
+      assert.deepEqual(await search({ start: day("10:00"), end: day("15:00") }), [ids.note]);
+    });
+
+    it("orders by start then id and pages with the after cursor", async () => {
+      const all = await search({});
+      const sameStart = [ids.anna, ids.bram].sort();
+      assert.deepEqual(all, [...sameStart, ids.note, ids.late]);
+
+      const firstPage = await search({}, 1);
+      assert.deepEqual(firstPage, [sameStart[0]]);
+      const nextPage = await search({ after: { startTime: day("09:00"), id: sameStart[0] } }, 2);
+      assert.deepEqual(nextPage, [sameStart[1], ids.note]);
+    });
+  });
+
+  it("creates the calendar settings on first access and updates them", async () => {
+    const settings = await storage.getCalendarSettings();
+    assert.ok(settings);
+    assert.equal((await storage.getCalendarSettings())?.id, settings.id);
+
+    const updated = await storage.updateCalendarSettings({ timeInterval: 30 });
+    assert.equal(updated.id, settings.id);
+    assert.equal(updated.timeInterval, 30);
+  });
+
+  it("lists sync runs newest first", async () => {
+    const older = await storage.createSyncRun({ trigger: "manual" });
+    const newer = await storage.createSyncRun({ trigger: "scheduled" });
+    await storage.updateSyncRun(older.id, { status: "success" });
+
+    const runs = await storage.getSyncRuns(2);
+    assert.deepEqual(runs.map(run => run.id), [newer.id, older.id]);
+    assert.equal(runs[1].status, "success");
+  });
+
+  it("queues, updates and removes outbox items", async () => {
+    const item = await storage.createOutboxItem({ operation: "update", odooEventId: 9000, payload: "{}" });
+    assert.equal(item.status, "pending");
+    assert.equal(item.attempts, 0);
+
+    await storage.updateOutboxItem(item.id, { attempts: 10, status: "failed", lastError: "down" });
+    const [stored] = await storage.getOutboxItems();
+    assert.equal(stored.status, "failed");
+    assert.equal(stored.lastError, "down");
+
+    assert.equal(await storage.deleteOutboxItem(item.id), true);
+    assert.deepEqual(await storage.getOutboxItems(), []);
+  });
+
+  it("finds leave by Odoo id and by range", async () => {
+    const leave = await storage.createLeave({
+      odooLeaveId: 31,
+      name: "Holiday",
+      startTime: new Date("2026-07-01T00:00:00Z"),
+      endTime: new Date("2026-07-02T00:00:00Z"),
+    });
+
+    assert.equal((await storage.getLeaveByOdooId(31))?.id, leave.id);
+    const inRange = await storage.getLeavesByDateRange(new Date("2026-07-01T12:00:00Z"), new Date("2026-07-03T00:00:00Z"));
+    assert.deepEqual(inRange.map(found => found.id), [leave.id]);
+    assert.deepEqual(await storage.getLeavesByDateRange(new Date("2026-07-02T00:00:00Z"), new Date("2026-07-03T00:00:00Z")), []);
+
+    assert.equal((await storage.updateLeave(leave.id, { name: "Summer" }))?.name, "Summer");
+    assert.equal(await storage.deleteLeave(leave.id), true);
+  });
+
+  it("returns audit entries newest first", async () => {
+    const first = await storage.createAuditEntry({ appointmentId: "apt-1", action: "booked", actorName: "admin", odooStatus: "synced" });
+    const second = await storage.createAuditEntry({ appointmentId: "apt-1", action: "rescheduled", actorName: "admin", odooStatus: "queued" });
+
+    assert.deepEqual((await storage.getAuditEntries("apt-1")).map(entry => entry.id), [second.id, first.id]);
+    assert.deepEqual(await storage.getAuditEntries("apt-2"), []);
+  });
+
+  it("upserts appointment type timings by Odoo type", async () => {
+    const timing = { odooAppointmentTypeId: 3, preBufferMinutes: 10, postBufferMinutes: 0, processingOffsetMinutes: 0, processingMinutes: 0 };
+    const created = await storage.upsertAppointmentTypeTiming(timing);
+    const updated = await storage.upsertAppointmentTypeTiming({ ...timing, preBufferMinutes: 5, postBufferMinutes: 15 });
+
+    assert.equal(updated.id, created.id);
+    const timings = await storage.getAppointmentTypeTimings();
+    assert.equal(timings.length, 1);
+    assert.equal(timings[0].preBufferMinutes, 5);
+    assert.equal(timings[0].postBufferMinutes, 15);
+  });
+
+  it("finds calendar feeds by token", async () => {
+    const feed = await storage.createCalendarFeed({ token: "secret-token", createdBy: "admin" });
+
+    assert.equal((await storage.getCalendarFeedByToken("secret-token"))?.id, feed.id);
+    assert.equal(await storage.getCalendarFeedByToken("other"), undefined);
+
+    const accessedAt = new Date("2026-01-01T09:00:00Z");
+    assert.deepEqual((await storage.updateCalendarFeed(feed.id, { lastAccessedAt: accessedAt }))?.lastAccessedAt, accessedAt);
+    // The primary key isn't updatable
+    assert.equal((await storage.updateCalendarFeed(feed.id, { id: "other-id", createdBy: "owner" }))?.id, feed.id);
+    assert.equal(await storage.deleteCalendarFeed(feed.id), true);
+    assert.deepEqual(await storage.getCalendarFeeds(), []);
+  });
+});
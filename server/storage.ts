@@ -1,11 +1,28 @@
-import { type Staff, type InsertStaff, type Appointment, type InsertAppointment, type CalendarSettings, type InsertCalendarSettings, type User, type InsertUser } from "@shared/schema";
+import { type Staff, type InsertStaff, type Appointment, type InsertAppointment, type CalendarSettings, type InsertCalendarSettings, type User, type InsertUser, type SyncRun, type InsertSyncRun, type OdooOutboxItem, type InsertOdooOutboxItem, type StaffLeave, type InsertStaffLeave, type AppointmentAuditEntry, type InsertAppointmentAuditEntry, type AppointmentTypeTiming, type InsertAppointmentTypeTiming, type CalendarFeed, type InsertCalendarFeed, users, staff, appointments, calendarSettings, syncRuns, odooOutbox, staffLeaves, appointmentAuditLog, appointmentTypeTimings, calendarFeeds } from "@shared/schema";
+import * as schema from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, gte, ilike, inArray, lt, or } from "drizzle-orm";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import { db } from "./db";
+
+// Filters of the agenda search; `after` continues past the last appointment of the previous page
+export interface AppointmentFilter {
+  text?: string;
+  statuses?: string[];
+  staffIds?: string[];
+  categoryColor?: string;
+  start?: Date;
+  end?: Date;
+  after?: { startTime: Date; id: string };
+}
 
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getAllUsers(): Promise<User[]>;
+  updateUser(id: string, user: Partial<User>): Promise<User | undefined>;
 
   // Staff methods
   getAllStaff(): Promise<Staff[]>;
@@ -20,6 +37,10 @@ export interface IStorage {
   getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]>;
   getAppointment(id: string): Promise<Appointment | undefined>;
   getAppointmentByOdooEventId(odooEventId: number): Promise<Appointment | undefined>;
+  getAppointmentsByRecurrenceId(odooRecurrenceId: number): Promise<Appointment[]>;
+  getAppointmentsByVisitId(visitId: string): Promise<Appointment[]>;
+  // Matching appointments ordered by start time, then id, at most `limit` of them
+  searchAppointments(filter: AppointmentFilter, limit: number): Promise<Appointment[]>;
   createAppointment(appointment: InsertAppointment): Promise<Appointment>;
   updateAppointment(id: string, appointment: Partial<Appointment>): Promise<Appointment | undefined>;
   deleteAppointment(id: string): Promise<boolean>;
@@ -27,6 +48,39 @@ export interface IStorage {
   // Calendar settings methods
   getCalendarSettings(): Promise<CalendarSettings | undefined>;
   updateCalendarSettings(settings: Partial<CalendarSettings>): Promise<CalendarSettings>;
+
+  // Sync run history methods
+  getSyncRuns(limit?: number): Promise<SyncRun[]>;
+  createSyncRun(run: InsertSyncRun): Promise<SyncRun>;
+  updateSyncRun(id: string, run: Partial<SyncRun>): Promise<SyncRun | undefined>;
+
+  // Odoo outbox methods (pending writes that failed and are waiting for a retry)
+  getOutboxItems(): Promise<OdooOutboxItem[]>;
+  createOutboxItem(item: InsertOdooOutboxItem): Promise<OdooOutboxItem>;
+  updateOutboxItem(id: string, item: Partial<OdooOutboxItem>): Promise<OdooOutboxItem | undefined>;
+  deleteOutboxItem(id: string): Promise<boolean>;
+
+  // Staff leave methods (time off and public holidays synced from Odoo)
+  getLeavesByDateRange(startDate: Date, endDate: Date): Promise<StaffLeave[]>;
+  getLeaveByOdooId(odooLeaveId: number): Promise<StaffLeave | undefined>;
+  createLeave(leave: InsertStaffLeave): Promise<StaffLeave>;
+  updateLeave(id: string, leave: Partial<StaffLeave>): Promise<StaffLeave | undefined>;
+  deleteLeave(id: string): Promise<boolean>;
+
+  // Appointment audit log methods (append-only)
+  getAuditEntries(appointmentId: string): Promise<AppointmentAuditEntry[]>;
+  createAuditEntry(entry: InsertAppointmentAuditEntry): Promise<AppointmentAuditEntry>;
+
+  // Buffer and processing times per Odoo appointment type
+  getAppointmentTypeTimings(): Promise<AppointmentTypeTiming[]>;
+  upsertAppointmentTypeTiming(timing: InsertAppointmentTypeTiming): Promise<AppointmentTypeTiming>;
+
+  // iCalendar subscription feed methods
+  getCalendarFeeds(): Promise<CalendarFeed[]>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed>;
+  updateCalendarFeed(id: string, feed: Partial<CalendarFeed>): Promise<CalendarFeed | undefined>;
+  deleteCalendarFeed(id: string): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
@@ -34,11 +88,23 @@ export class MemStorage implements IStorage {
   private staff: Map<string, Staff>;
   private appointments: Map<string, Appointment>;
   private calendarSettings: CalendarSettings | undefined;
+  private syncRuns: Map<string, SyncRun>;
+  private outbox: Map<string, OdooOutboxItem>;
+  private leaves: Map<string, StaffLeave>;
+  private auditLog: AppointmentAuditEntry[];
+  private typeTimings: Map<number, AppointmentTypeTiming>;
+  private calendarFeeds: Map<string, CalendarFeed>;
 
   constructor() {
     this.users = new Map();
     this.staff = new Map();
     this.appointments = new Map();
+    this.syncRuns = new Map();
+    this.outbox = new Map();
+    this.leaves = new Map();
+    this.auditLog = [];
+    this.typeTimings = new Map();
+    this.calendarFeeds = new Map();
     
     // Initialize default settings
     this.calendarSettings = {
@@ -49,6 +115,7 @@ export class MemStorage implements IStorage {
       workingHoursStart: "09:00",
       workingHoursEnd: "17:00",
       lastOdooSync: null,
+      lastOdooWriteDate: null,
       updatedAt: new Date(),
     };
 
@@ -126,6 +193,8 @@ export class MemStorage implements IStorage {
         customerName: "Emma Johnson",
         customerEmail: "emma@example.com",
         customerPhone: "+1 555-0101",
+        customerMobile: null,
+        odooPartnerId: null,
         service: "Haircut & Styling",
         startTime: new Date(today.getTime() + 10 * 60 * 60 * 1000), // 10:00 AM
         endTime: new Date(today.getTime() + 11 * 60 * 60 * 1000), // 11:00 AM
@@ -135,6 +204,17 @@ export class MemStorage implements IStorage {
         price: "$45",
         notes: "Regular customer, prefers short layers",
         categoryColor: null,
+        cancellationReason: null,
+        cancelledAt: null,
+        checkedInAt: null,
+        startedAt: null,
+        completedAt: null,
+        noShowAt: null,
+        odooRecurrenceId: null,
+        recurrenceRule: null,
+        visitId: null,
+        visitSegment: null,
+        odooAppointmentTypeId: null,
         lastSynced: new Date(),
       },
       {
@@ -144,6 +224,8 @@ export class MemStorage implements IStorage {
         customerName: "Olivia Brown",
         customerEmail: "olivia@example.com",
         customerPhone: "+1 555-0102",
+        customerMobile: null,
+        odooPartnerId: null,
         service: "Hair Coloring",
         startTime: new Date(today.getTime() + 14 * 60 * 60 * 1000), // 2:00 PM
         endTime: new Date(today.getTime() + 16 * 60 * 60 * 1000), // 4:00 PM
@@ -153,6 +235,17 @@ export class MemStorage implements IStorage {
         price: "$120",
         notes: "Full color treatment with highlights",
         categoryColor: null,
+        cancellationReason: null,
+        cancelledAt: null,
+        checkedInAt: null,
+        startedAt: null,
+        completedAt: null,
+        noShowAt: null,
+        odooRecurrenceId: null,
+        recurrenceRule: null,
+        visitId: null,
+        visitSegment: null,
+        odooAppointmentTypeId: null,
         lastSynced: new Date(),
       },
       // Mike's appointments
@@ -163,6 +256,8 @@ export class MemStorage implements IStorage {
         customerName: "James Wilson",
         customerEmail: "james@example.com",
         customerPhone: "+1 555-0103",
+        customerMobile: null,
+        odooPartnerId: null,
         service: "Haircut",
         startTime: new Date(today.getTime() + 9 * 60 * 60 * 1000), // 9:00 AM
         endTime: new Date(today.getTime() + 9.5 * 60 * 60 * 1000), // 9:30 AM
@@ -172,6 +267,17 @@ export class MemStorage implements IStorage {
         price: "$35",
         notes: null,
         categoryColor: null,
+        cancellationReason: null,
+        cancelledAt: null,
+        checkedInAt: null,
+        startedAt: null,
+        completedAt: null,
+        noShowAt: null,
+        odooRecurrenceId: null,
+        recurrenceRule: null,
+        visitId: null,
+        visitSegment: null,
+        odooAppointmentTypeId: null,
         lastSynced: new Date(),
       },
       {
@@ -181,6 +287,8 @@ export class MemStorage implements IStorage {
         customerName: "Sophia Martinez",
         customerEmail: "sophia@example.com",
         customerPhone: "+1 555-0104",
+        customerMobile: null,
+        odooPartnerId: null,
         service: "Treatment",
         startTime: new Date(today.getTime() + 11 * 60 * 60 * 1000), // 11:00 AM
         endTime: new Date(today.getTime() + 12 * 60 * 60 * 1000), // 12:00 PM
@@ -190,6 +298,17 @@ export class MemStorage implements IStorage {
         price: "$65",
         notes: "Deep conditioning treatment",
         categoryColor: null,
+        cancellationReason: null,
+        cancelledAt: null,
+        checkedInAt: null,
+        startedAt: null,
+        completedAt: null,
+        noShowAt: null,
+        odooRecurrenceId: null,
+        recurrenceRule: null,
+        visitId: null,
+        visitSegment: null,
+        odooAppointmentTypeId: null,
         lastSynced: new Date(),
       },
       // Lisa's appointments
@@ -200,6 +319,8 @@ export class MemStorage implements IStorage {
         customerName: "Ava Davis",
         customerEmail: "ava@example.com",
         customerPhone: "+1 555-0105",
+        customerMobile: null,
+        odooPartnerId: null,
         service: "Consultation",
         startTime: new Date(today.getTime() + 10 * 60 * 60 * 1000), // 10:00 AM
         endTime: new Date(today.getTime() + 10.5 * 60 * 60 * 1000), // 10:30 AM
@@ -209,6 +330,17 @@ export class MemStorage implements IStorage {
         price: "$20",
         notes: "First-time customer consultation",
         categoryColor: null,
+        cancellationReason: null,
+        cancelledAt: null,
+        checkedInAt: null,
+        startedAt: null,
+        completedAt: null,
+        noShowAt: null,
+        odooRecurrenceId: null,
+        recurrenceRule: null,
+        visitId: null,
+        visitSegment: null,
+        odooAppointmentTypeId: null,
         lastSynced: new Date(),
       },
       {
@@ -218,6 +350,8 @@ export class MemStorage implements IStorage {
         customerName: "Isabella Garcia",
         customerEmail: "isabella@example.com",
         customerPhone: "+1 555-0106",
+        customerMobile: null,
+        odooPartnerId: null,
         service: "Hair Coloring",
         startTime: new Date(today.getTime() + 13 * 60 * 60 * 1000), // 1:00 PM
         endTime: new Date(today.getTime() + 15.5 * 60 * 60 * 1000), // 3:30 PM
@@ -227,6 +361,17 @@ export class MemStorage implements IStorage {
         price: "$150",
         notes: "Balayage with toner",
         categoryColor: null,
+        cancellationReason: null,
+        cancelledAt: null,
+        checkedInAt: null,
+        startedAt: null,
+        completedAt: null,
+        noShowAt: null,
+        odooRecurrenceId: null,
+        recurrenceRule: null,
+        visitId: null,
+        visitSegment: null,
+        odooAppointmentTypeId: null,
         lastSynced: new Date(),
       },
       // Jenny's appointments
@@ -237,6 +382,8 @@ export class MemStorage implements IStorage {
         customerName: "Mia Rodriguez",
         customerEmail: "mia@example.com",
         customerPhone: "+1 555-0107",
+        customerMobile: null,
+        odooPartnerId: null,
         service: "Haircut",
         startTime: new Date(today.getTime() + 9.5 * 60 * 60 * 1000), // 9:30 AM
         endTime: new Date(today.getTime() + 10.25 * 60 * 60 * 1000), // 10:15 AM
@@ -246,6 +393,17 @@ export class MemStorage implements IStorage {
         price: "$30",
         notes: null,
         categoryColor: null,
+        cancellationReason: null,
+        cancelledAt: null,
+        checkedInAt: null,
+        startedAt: null,
+        completedAt: null,
+        noShowAt: null,
+        odooRecurrenceId: null,
+        recurrenceRule: null,
+        visitId: null,
+        visitSegment: null,
+        odooAppointmentTypeId: null,
         lastSynced: new Date(),
       },
       {
@@ -255,6 +413,8 @@ export class MemStorage implements IStorage {
         customerName: "Charlotte Lee",
         customerEmail: "charlotte@example.com",
         customerPhone: "+1 555-0108",
+        customerMobile: null,
+        odooPartnerId: null,
         service: "Haircut & Styling",
         startTime: new Date(today.getTime() + 15 * 60 * 60 * 1000), // 3:00 PM
         endTime: new Date(today.getTime() + 16 * 60 * 60 * 1000), // 4:00 PM
@@ -264,6 +424,17 @@ export class MemStorage implements IStorage {
         price: "$50",
         notes: "Special occasion styling",
         categoryColor: null,
+        cancellationReason: null,
+        cancelledAt: null,
+        checkedInAt: null,
+        startedAt: null,
+        completedAt: null,
+        noShowAt: null,
+        odooRecurrenceId: null,
+        recurrenceRule: null,
+        visitId: null,
+        visitSegment: null,
+        odooAppointmentTypeId: null,
         lastSynced: new Date(),
       },
     ];
@@ -286,11 +457,30 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      role: insertUser.role ?? "receptionist",
+      staffId: insertUser.staffId ?? null,
+      id,
+    };
     this.users.set(id, user);
     return user;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUser(id: string, updateData: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updateData, id };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
   // Staff methods
   async getAllStaff(): Promise<Staff[]> {
     return Array.from(this.staff.values()).filter(s => s.isActive);
@@ -356,17 +546,59 @@ export class MemStorage implements IStorage {
     return Array.from(this.appointments.values()).find(a => a.odooEventId === odooEventId);
   }
 
+  async getAppointmentsByRecurrenceId(odooRecurrenceId: number): Promise<Appointment[]> {
+    return Array.from(this.appointments.values())
+      .filter(a => a.odooRecurrenceId === odooRecurrenceId)
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+  }
+
+  async getAppointmentsByVisitId(visitId: string): Promise<Appointment[]> {
+    return Array.from(this.appointments.values())
+      .filter(a => a.visitId === visitId)
+      .sort((a, b) => (a.visitSegment ?? 0) - (b.visitSegment ?? 0));
+  }
+
+  async searchAppointments(filter: AppointmentFilter, limit: number): Promise<Appointment[]> {
+    const text = filter.text?.toLowerCase();
+    const after = filter.after;
+    return Array.from(this.appointments.values())
+      .filter(a =>
+        (!text || [a.customerName, a.service, a.notes].some(field => field?.toLowerCase().includes(text))) &&
+        (!filter.statuses || filter.statuses.includes(a.status)) &&
+        (!filter.staffIds || (a.staffId !== null && filter.staffIds.includes(a.staffId))) &&
+        (!filter.categoryColor || String(a.categoryColor) === filter.categoryColor) &&
+        (!filter.start || a.startTime >= filter.start) &&
+        (!filter.end || a.startTime < filter.end) &&
+        (!after || a.startTime > after.startTime || (a.startTime.getTime() === after.startTime.getTime() && a.id > after.id))
+      )
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit);
+  }
+
   async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
     const id = randomUUID();
     const appointment: Appointment = { 
       ...insertAppointment,
       customerEmail: insertAppointment.customerEmail ?? null,
       customerPhone: insertAppointment.customerPhone ?? null,
+      customerMobile: insertAppointment.customerMobile ?? null,
+      odooPartnerId: insertAppointment.odooPartnerId ?? null,
       staffId: insertAppointment.staffId ?? null,
       price: insertAppointment.price ?? null,
       notes: insertAppointment.notes ?? null,
       categoryColor: insertAppointment.categoryColor ?? null,
       status: insertAppointment.status ?? "confirmed",
+      cancellationReason: insertAppointment.cancellationReason ?? null,
+      cancelledAt: insertAppointment.cancelledAt ?? null,
+      checkedInAt: insertAppointment.checkedInAt ?? null,
+      startedAt: insertAppointment.startedAt ?? null,
+      completedAt: insertAppointment.completedAt ?? null,
+      noShowAt: insertAppointment.noShowAt ?? null,
+      odooRecurrenceId: insertAppointment.odooRecurrenceId ?? null,
+      recurrenceRule: insertAppointment.recurrenceRule ?? null,
+      visitId: insertAppointment.visitId ?? null,
+      visitSegment: insertAppointment.visitSegment ?? null,
+      odooAppointmentTypeId: insertAppointment.odooAppointmentTypeId ?? null,
       id,
       lastSynced: new Date()
     };
@@ -404,6 +636,528 @@ export class MemStorage implements IStorage {
     };
     return this.calendarSettings;
   }
+
+  // Sync run history methods
+  async getSyncRuns(limit: number = 20): Promise<SyncRun[]> {
+    return Array.from(this.syncRuns.values())
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async createSyncRun(insertRun: InsertSyncRun): Promise<SyncRun> {
+    const id = randomUUID();
+    const run: SyncRun = {
+      trigger: insertRun.trigger ?? "manual",
+      status: insertRun.status ?? "running",
+      mode: insertRun.mode ?? null,
+      windowStart: insertRun.windowStart ?? null,
+      windowEnd: insertRun.windowEnd ?? null,
+      created: insertRun.created ?? 0,
+      updated: insertRun.updated ?? 0,
+      deleted: insertRun.deleted ?? 0,
+      cancelled: insertRun.cancelled ?? 0,
+      error: insertRun.error ?? null,
+      finishedAt: insertRun.finishedAt ?? null,
+      id,
+      startedAt: new Date(),
+    };
+    this.syncRuns.set(id, run);
+    return run;
+  }
+
+  async updateSyncRun(id: string, updateData: Partial<SyncRun>): Promise<SyncRun | undefined> {
+    const run = this.syncRuns.get(id);
+    if (!run) return undefined;
+
+    const updatedRun = { ...run, ...updateData };
+    this.syncRuns.set(id, updatedRun);
+    return updatedRun;
+  }
+
+  // Odoo outbox methods
+  async getOutboxItems(): Promise<OdooOutboxItem[]> {
+    return Array.from(this.outbox.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createOutboxItem(insertItem: InsertOdooOutboxItem): Promise<OdooOutboxItem> {
+    const id = randomUUID();
+    const item: OdooOutboxItem = {
+      ...insertItem,
+      appointmentId: insertItem.appointmentId ?? null,
+      payload: insertItem.payload ?? "{}",
+      attempts: insertItem.attempts ?? 0,
+      status: insertItem.status ?? "pending",
+      lastError: insertItem.lastError ?? null,
+      nextAttemptAt: insertItem.nextAttemptAt ?? new Date(),
+      id,
+      createdAt: new Date(),
+    };
+    this.outbox.set(id, item);
+    return item;
+  }
+
+  async updateOutboxItem(id: string, updateData: Partial<OdooOutboxItem>): Promise<OdooOutboxItem | undefined> {
+    const item = this.outbox.get(id);
+    if (!item) return undefined;
+
+    const updatedItem = { ...item, ...updateData };
+    this.outbox.set(id, updatedItem);
+    return updatedItem;
+  }
+
+  async deleteOutboxItem(id: string): Promise<boolean> {
+    return this.outbox.delete(id);
+  }
+
+  // Staff leave methods
+  async getLeavesByDateRange(startDate: Date, endDate: Date): Promise<StaffLeave[]> {
+    return Array.from(this.leaves.values()).filter(
+      leave => leave.startTime < endDate && leave.endTime > startDate
+    );
+  }
+
+  async getLeaveByOdooId(odooLeaveId: number): Promise<StaffLeave | undefined> {
+    return Array.from(this.leaves.values()).find(leave => leave.odooLeaveId === odooLeaveId);
+  }
+
+  async createLeave(insertLeave: InsertStaffLeave): Promise<StaffLeave> {
+    const id = randomUUID();
+    const leave: StaffLeave = {
+      ...insertLeave,
+      staffId: insertLeave.staffId ?? null,
+      resourceCalendarId: insertLeave.resourceCalendarId ?? null,
+      id,
+      lastSynced: new Date(),
+    };
+    this.leaves.set(id, leave);
+    return leave;
+  }
+
+  async updateLeave(id: string, updateData: Partial<StaffLeave>): Promise<StaffLeave | undefined> {
+    const leave = this.leaves.get(id);
+    if (!leave) return undefined;
+
+    const updatedLeave = { ...leave, ...updateData, lastSynced: new Date() };
+    this.leaves.set(id, updatedLeave);
+    return updatedLeave;
+  }
+
+  async deleteLeave(id: string): Promise<boolean> {
+    return this.leaves.delete(id);
+  }
+
+  // Appointment audit log methods
+  async getAuditEntries(appointmentId: string): Promise<AppointmentAuditEntry[]> {
+    return this.auditLog
+      .filter(entry => entry.appointmentId === appointmentId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createAuditEntry(insertEntry: InsertAppointmentAuditEntry): Promise<AppointmentAuditEntry> {
+    const entry: AppointmentAuditEntry = {
+      ...insertEntry,
+      odooEventId: insertEntry.odooEventId ?? null,
+      actorUserId: insertEntry.actorUserId ?? null,
+      before: insertEntry.before ?? null,
+      after: insertEntry.after ?? null,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.auditLog.push(entry);
+    return entry;
+  }
+
+  // Appointment type timing methods
+  async getAppointmentTypeTimings(): Promise<AppointmentTypeTiming[]> {
+    return Array.from(this.typeTimings.values());
+  }
+
+  async upsertAppointmentTypeTiming(insertTiming: InsertAppointmentTypeTiming): Promise<AppointmentTypeTiming> {
+    const existing = this.typeTimings.get(insertTiming.odooAppointmentTypeId);
+    const timing: AppointmentTypeTiming = {
+      ...insertTiming,
+      id: existing?.id ?? randomUUID(),
+      updatedAt: new Date(),
+    };
+    this.typeTimings.set(timing.odooAppointmentTypeId, timing);
+    return timing;
+  }
+
+  // Calendar feed methods
+  async getCalendarFeeds(): Promise<CalendarFeed[]> {
+    return Array.from(this.calendarFeeds.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeeds.values()).find(feed => feed.token === token);
+  }
+
+  async createCalendarFeed(insertFeed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const feed: CalendarFeed = {
+      ...insertFeed,
+      staffId: insertFeed.staffId ?? null,
+      id: randomUUID(),
+      createdAt: new Date(),
+      lastAccessedAt: null,
+    };
+    this.calendarFeeds.set(feed.id, feed);
+    return feed;
+  }
+
+  async updateCalendarFeed(id: string, updates: Partial<CalendarFeed>): Promise<CalendarFeed | undefined> {
+    const feed = this.calendarFeeds.get(id);
+    if (!feed) return undefined;
+    const updated = { ...feed, ...updates };
+    this.calendarFeeds.set(id, updated);
+    return updated;
+  }
+
+  async deleteCalendarFeed(id: string): Promise<boolean> {
+    return this.calendarFeeds.delete(id);
+  }
+}
+
+// Any Drizzle Postgres driver works here (node-postgres, pglite, neon),
+// so the class can be exercised against a local database in tests
+type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User methods
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async updateUser(id: string, updateData: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...values } = updateData;
+    const [user] = await this.db
+      .update(users)
+      .set(values)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  // Staff methods
+  async getAllStaff(): Promise<Staff[]> {
+    return this.db.select().from(staff).where(eq(staff.isActive, true));
+  }
+
+  async getStaff(id: string): Promise<Staff | undefined> {
+    const [member] = await this.db.select().from(staff).where(eq(staff.id, id));
+    return member;
+  }
+
+  async getStaffByOdooUserId(odooUserId: number): Promise<Staff | undefined> {
+    const [member] = await this.db.select().from(staff).where(eq(staff.odooUserId, odooUserId));
+    return member;
+  }
+
+  async createStaff(insertStaff: InsertStaff): Promise<Staff> {
+    const [member] = await this.db.insert(staff).values(insertStaff).returning();
+    return member;
+  }
+
+  async updateStaff(id: string, updateData: Partial<Staff>): Promise<Staff | undefined> {
+    const { id: _id, ...values } = updateData;
+    if (Object.keys(values).length === 0) return this.getStaff(id);
+
+    const [member] = await this.db
+      .update(staff)
+      .set(values)
+      .where(eq(staff.id, id))
+      .returning();
+    return member;
+  }
+
+  async deleteStaff(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(staff).where(eq(staff.id, id)).returning({ id: staff.id });
+    return deleted.length > 0;
+  }
+
+  // Appointment methods
+  async getAllAppointments(): Promise<Appointment[]> {
+    return this.db.select().from(appointments);
+  }
+
+  async getAppointmentsByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]> {
+    // Same overlap rule as MemStorage: starts before range ends AND ends after range starts
+    return this.db
+      .select()
+      .from(appointments)
+      .where(and(lt(appointments.startTime, endDate), gt(appointments.endTime, startDate)));
+  }
+
+  async getAppointment(id: string): Promise<Appointment | undefined> {
+    const [appointment] = await this.db.select().from(appointments).where(eq(appointments.id, id));
+    return appointment;
+  }
+
+  async getAppointmentByOdooEventId(odooEventId: number): Promise<Appointment | undefined> {
+    const [appointment] = await this.db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.odooEventId, odooEventId));
+    return appointment;
+  }
+
+  async getAppointmentsByRecurrenceId(odooRecurrenceId: number): Promise<Appointment[]> {
+    return await this.db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.odooRecurrenceId, odooRecurrenceId))
+      .orderBy(asc(appointments.startTime));
+  }
+
+  async getAppointmentsByVisitId(visitId: string): Promise<Appointment[]> {
+    return await this.db
+      .select()
+      .from(appointments)
+      .where(eq(appointments.visitId, visitId))
+      .orderBy(asc(appointments.visitSegment));
+  }
+
+  async searchAppointments(filter: AppointmentFilter, limit: number): Promise<Appointment[]> {
+    // Escape LIKE wildcards so the search text is matched literally
+    const pattern = filter.text ? `%${filter.text.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+    const after = filter.after;
+    return this.db
+      .select()
+      .from(appointments)
+      .where(and(
+        pattern ? or(
+          ilike(appointments.customerName, pattern),
+          ilike(appointments.service, pattern),
+          ilike(appointments.notes, pattern),
+        ) : undefined,
+        filter.statuses ? inArray(appointments.status, filter.statuses) : undefined,
+        filter.staffIds ? inArray(appointments.staffId, filter.staffIds) : undefined,
+        filter.categoryColor ? eq(appointments.categoryColor, filter.categoryColor) : undefined,
+        filter.start ? gte(appointments.startTime, filter.start) : undefined,
+        filter.end ? lt(appointments.startTime, filter.end) : undefined,
+        after ? or(
+          gt(appointments.startTime, after.startTime),
+          and(eq(appointments.startTime, after.startTime), gt(appointments.id, after.id)),
+        ) : undefined,
+      ))
+      .orderBy(asc(appointments.startTime), asc(appointments.id))
+      .limit(limit);
+  }
+
+  async createAppointment(insertAppointment: InsertAppointment): Promise<Appointment> {
+    const [appointment] = await this.db
+      .insert(appointments)
+      .values({ ...insertAppointment, lastSynced: new Date() })
+      .returning();
+    return appointment;
+  }
+
+  async updateAppointment(id: string, updateData: Partial<Appointment>): Promise<Appointment | undefined> {
+    const { id: _id, ...values } = updateData;
+    const [appointment] = await this.db
+      .update(appointments)
+      .set({ ...values, lastSynced: new Date() })
+      .where(eq(appointments.id, id))
+      .returning();
+    return appointment;
+  }
+
+  async deleteAppointment(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(appointments)
+      .where(eq(appointments.id, id))
+      .returning({ id: appointments.id });
+    return deleted.length > 0;
+  }
+
+  // Calendar settings methods
+  // Settings are a single row; it is created with column defaults on first access
+  async getCalendarSettings(): Promise<CalendarSettings | undefined> {
+    const [existing] = await this.db.select().from(calendarSettings).limit(1);
+    if (existing) return existing;
+
+    const [created] = await this.db.insert(calendarSettings).values({}).returning();
+    return created;
+  }
+
+  async updateCalendarSettings(updateData: Partial<CalendarSettings>): Promise<CalendarSettings> {
+    const current = await this.getCalendarSettings();
+    const { id: _id, ...values } = updateData;
+
+    const [updated] = await this.db
+      .update(calendarSettings)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(calendarSettings.id, current!.id))
+      .returning();
+    return updated;
+  }
+
+  // Sync run history methods
+  async getSyncRuns(limit: number = 20): Promise<SyncRun[]> {
+    return this.db.select().from(syncRuns).orderBy(desc(syncRuns.startedAt)).limit(limit);
+  }
+
+  async createSyncRun(insertRun: InsertSyncRun): Promise<SyncRun> {
+    const [run] = await this.db.insert(syncRuns).values(insertRun).returning();
+    return run;
+  }
+
+  async updateSyncRun(id: string, updateData: Partial<SyncRun>): Promise<SyncRun | undefined> {
+    const { id: _id, ...values } = updateData;
+    const [run] = await this.db
+      .update(syncRuns)
+      .set(values)
+      .where(eq(syncRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  // Odoo outbox methods
+  async getOutboxItems(): Promise<OdooOutboxItem[]> {
+    return this.db.select().from(odooOutbox).orderBy(asc(odooOutbox.createdAt));
+  }
+
+  async createOutboxItem(insertItem: InsertOdooOutboxItem): Promise<OdooOutboxItem> {
+    const [item] = await this.db.insert(odooOutbox).values(insertItem).returning();
+    return item;
+  }
+
+  async updateOutboxItem(id: string, updateData: Partial<OdooOutboxItem>): Promise<OdooOutboxItem | undefined> {
+    const { id: _id, ...values } = updateData;
+    const [item] = await this.db
+      .update(odooOutbox)
+      .set(values)
+      .where(eq(odooOutbox.id, id))
+      .returning();
+    return item;
+  }
+
+  async deleteOutboxItem(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(odooOutbox)
+      .where(eq(odooOutbox.id, id))
+      .returning({ id: odooOutbox.id });
+    return deleted.length > 0;
+  }
+
+  // Staff leave methods
+  async getLeavesByDateRange(startDate: Date, endDate: Date): Promise<StaffLeave[]> {
+    return this.db
+      .select()
+      .from(staffLeaves)
+      .where(and(lt(staffLeaves.startTime, endDate), gt(staffLeaves.endTime, startDate)));
+  }
+
+  async getLeaveByOdooId(odooLeaveId: number): Promise<StaffLeave | undefined> {
+    const [leave] = await this.db.select().from(staffLeaves).where(eq(staffLeaves.odooLeaveId, odooLeaveId));
+    return leave;
+  }
+
+  async createLeave(insertLeave: InsertStaffLeave): Promise<StaffLeave> {
+    const [leave] = await this.db.insert(staffLeaves).values(insertLeave).returning();
+    return leave;
+  }
+
+  async updateLeave(id: string, updateData: Partial<StaffLeave>): Promise<StaffLeave | undefined> {
+    const { id: _id, ...values } = updateData;
+    const [leave] = await this.db
+      .update(staffLeaves)
+      .set({ ...values, lastSynced: new Date() })
+      .where(eq(staffLeaves.id, id))
+      .returning();
+    return leave;
+  }
+
+  async deleteLeave(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(staffLeaves)
+      .where(eq(staffLeaves.id, id))
+      .returning({ id: staffLeaves.id });
+    return deleted.length > 0;
+  }
+
+  // Appointment audit log methods
+  async getAuditEntries(appointmentId: string): Promise<AppointmentAuditEntry[]> {
+    return this.db
+      .select()
+      .from(appointmentAuditLog)
+      .where(eq(appointmentAuditLog.appointmentId, appointmentId))
+      .orderBy(desc(appointmentAuditLog.createdAt));
+  }
+
+  async createAuditEntry(insertEntry: InsertAppointmentAuditEntry): Promise<AppointmentAuditEntry> {
+    const [entry] = await this.db.insert(appointmentAuditLog).values(insertEntry).returning();
+    return entry;
+  }
+
+  // Appointment type timing methods
+  async getAppointmentTypeTimings(): Promise<AppointmentTypeTiming[]> {
+    return this.db.select().from(appointmentTypeTimings);
+  }
+
+  async upsertAppointmentTypeTiming(insertTiming: InsertAppointmentTypeTiming): Promise<AppointmentTypeTiming> {
+    const [timing] = await this.db
+      .insert(appointmentTypeTimings)
+      .values(insertTiming)
+      .onConflictDoUpdate({
+        target: appointmentTypeTimings.odooAppointmentTypeId,
+        set: { ...insertTiming, updatedAt: new Date() },
+      })
+      .returning();
+    return timing;
+  }
+
+  // Calendar feed methods
+  async getCalendarFeeds(): Promise<CalendarFeed[]> {
+    return this.db.select().from(calendarFeeds).orderBy(asc(calendarFeeds.createdAt));
+  }
+
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await this.db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+
+  async createCalendarFeed(insertFeed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const [feed] = await this.db.insert(calendarFeeds).values(insertFeed).returning();
+    return feed;
+  }
+
+  async updateCalendarFeed(id: string, updates: Partial<CalendarFeed>): Promise<CalendarFeed | undefined> {
+    const { id: _id, ...values } = updates;
+    const [feed] = await this.db
+      .update(calendarFeeds)
+      .set(values)
+      .where(eq(calendarFeeds.id, id))
+      .returning();
+    return feed;
+  }
+
+  async deleteCalendarFeed(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(calendarFeeds)
+      .where(eq(calendarFeeds.id, id))
+      .returning({ id: calendarFeeds.id });
+    return deleted.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when DATABASE_URL is set, otherwise keep everything in memory
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
@@ -0,0 +1,88 @@
+// The salon's time zone. Working hours, closed days, recurrences and calendar feeds are
+// in salon time, whatever zone the server itself runs in.
+export const SALON_TIMEZONE = process.env.SALON_TIMEZONE || "Europe/Amsterdam";
+
+const MINUTE_MS = 60 * 1000;
+
+// Wall-clock fields of a moment in a time zone; month is 0-based and weekday 0=Sunday, as in Date
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+  weekday: number;
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Offset from UTC in minutes of a time zone at a moment, read from Intl since there's no
+// time zone database in the server otherwise
+export function zoneOffset(timeZone: string, at: number): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(at))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((asUtc - Math.floor(at / 1000) * 1000) / MINUTE_MS);
+}
+
+// A wall-clock time written as if it were UTC (Date.UTC fields), to the moment it is in the zone
+export function zonedToUtc(local: number, timeZone: string): number {
+  const guess = local - zoneOffset(timeZone, local) * MINUTE_MS;
+  return local - zoneOffset(timeZone, guess) * MINUTE_MS;
+}
+
+// The other way round: a moment to its wall-clock time in the zone, written as if it were UTC
+export function utcToZoned(at: number, timeZone: string): number {
+  return at + zoneOffset(timeZone, at) * MINUTE_MS;
+}
+
+export function salonParts(date: Date, timeZone = SALON_TIMEZONE): ZonedParts {
+  const local = new Date(utcToZoned(date.getTime(), timeZone));
+  return {
+    year: local.getUTCFullYear(),
+    month: local.getUTCMonth(),
+    day: local.getUTCDate(),
+    hours: local.getUTCHours(),
+    minutes: local.getUTCMinutes(),
+    seconds: local.getUTCSeconds(),
+    weekday: local.getUTCDay(),
+  };
+}
+
+// The moment a salon wall-clock time happens. Fields overflow like Date.UTC's, so day + 1
+// is the next day and minutes past 60 roll into the hour.
+export function salonTime(year: number, month: number, day: number, hours = 0, minutes = 0, timeZone = SALON_TIMEZONE): Date {
+  return new Date(zonedToUtc(Date.UTC(year, month, day, hours, minutes), timeZone));
+}
+
+// How far apart two moments are on the salon's wall clock. Across a DST change this differs
+// from the elapsed time by the change, e.g. 09:00 to 09:00 a week later is exactly 7 days.
+export function salonShift(from: Date, to: Date, timeZone = SALON_TIMEZONE): number {
+  return utcToZoned(to.getTime(), timeZone) - utcToZoned(from.getTime(), timeZone);
+}
+
+// A moment moved by a wall-clock amount from salonShift, keeping its salon time of day
+export function shiftSalonTime(date: Date, wallClockMs: number, timeZone = SALON_TIMEZONE): Date {
+  return new Date(zonedToUtc(utcToZoned(date.getTime(), timeZone) + wallClockMs, timeZone));
+}
@@ -6,7 +6,9 @@ import { z } from "zod";
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash as "hash.salt", see server/auth.ts
+  role: text("role").notNull().default("receptionist"), // admin, receptionist, stylist
+  staffId: varchar("staff_id").references(() => staff.id), // the staff member a stylist logs in as
 });
 
 export const staff = pgTable("staff", {
@@ -29,15 +31,28 @@ export const appointments = pgTable("appointments", {
   customerName: text("customer_name").notNull(),
   customerEmail: text("customer_email"),
   customerPhone: text("customer_phone"),
+  customerMobile: text("customer_mobile"),
+  odooPartnerId: integer("odoo_partner_id"), // res.partner id of the customer
   service: text("service").notNull(),
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   duration: integer("duration").notNull(), // in minutes
   staffId: varchar("staff_id").references(() => staff.id),
-  status: text("status").notNull().default("confirmed"), // confirmed, cancelled, completed
+  status: text("status").notNull().default("confirmed"), // one of appointmentStatuses
   price: text("price"),
   notes: text("notes"),
   categoryColor: text("category_color"), // hex color from appointment category
+  cancellationReason: text("cancellation_reason"), // one of cancellationReasons, set while cancelled
+  cancelledAt: timestamp("cancelled_at"),
+  checkedInAt: timestamp("checked_in_at"),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  noShowAt: timestamp("no_show_at"),
+  odooRecurrenceId: integer("odoo_recurrence_id"), // calendar.recurrence shared by a series' occurrences
+  recurrenceRule: text("recurrence_rule"), // RRULE of the series, e.g. FREQ=WEEKLY;INTERVAL=6;COUNT=8
+  visitId: varchar("visit_id"), // shared by the segments of a multi-service booking
+  visitSegment: integer("visit_segment"), // position of the segment within its visit, from 0
+  odooAppointmentTypeId: integer("odoo_appointment_type_id"), // appointment.type of the service, for its buffer times
   lastSynced: timestamp("last_synced").defaultNow(),
 });
 
@@ -49,9 +64,91 @@ export const calendarSettings = pgTable("calendar_settings", {
   workingHoursStart: text("working_hours_start").notNull().default("09:00"),
   workingHoursEnd: text("working_hours_end").notNull().default("17:00"),
   lastOdooSync: timestamp("last_odoo_sync"),
+  lastOdooWriteDate: text("last_odoo_write_date"), // highest calendar.event write_date seen, in Odoo's UTC format
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const syncRuns = pgTable("sync_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  trigger: text("trigger").notNull().default("manual"), // manual, scheduled
+  status: text("status").notNull().default("running"), // running, success, failed
+  mode: text("mode"), // full, incremental
+  windowStart: timestamp("window_start"),
+  windowEnd: timestamp("window_end"),
+  created: integer("created").notNull().default(0),
+  updated: integer("updated").notNull().default(0),
+  deleted: integer("deleted").notNull().default(0),
+  cancelled: integer("cancelled").notNull().default(0),
+  error: text("error"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const odooOutbox = pgTable("odoo_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  operation: text("operation").notNull(), // update, delete, create_sales_order
+  odooEventId: integer("odoo_event_id").notNull(),
+  appointmentId: varchar("appointment_id"), // no FK: the local row may already be gone
+  payload: text("payload").notNull().default("{}"), // JSON arguments for the Odoo call
+  attempts: integer("attempts").notNull().default(0),
+  status: text("status").notNull().default("pending"), // pending, failed (gave up after MAX_OUTBOX_ATTEMPTS)
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Time off imported from Odoo resource.calendar.leaves: per-staff leave, or a public
+// holiday (no staffId) that applies to everyone on the given working-hours calendar
+export const staffLeaves = pgTable("staff_leaves", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  odooLeaveId: integer("odoo_leave_id").notNull().unique(),
+  name: text("name").notNull(),
+  staffId: varchar("staff_id").references(() => staff.id),
+  resourceCalendarId: integer("resource_calendar_id"),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  lastSynced: timestamp("last_synced").defaultNow(),
+});
+
+// Per appointment type: how long the stylist is busy before and after the service (prep,
+// cleanup), and an optional stretch during it (e.g. colour processing) when they're free
+// to take another client. Appointment types themselves live in Odoo.
+export const appointmentTypeTimings = pgTable("appointment_type_timings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  odooAppointmentTypeId: integer("odoo_appointment_type_id").notNull().unique(),
+  preBufferMinutes: integer("pre_buffer_minutes").notNull().default(0),
+  postBufferMinutes: integer("post_buffer_minutes").notNull().default(0),
+  processingOffsetMinutes: integer("processing_offset_minutes").notNull().default(0), // minutes after the start
+  processingMinutes: integer("processing_minutes").notNull().default(0), // 0 means the stylist is never free
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Tokenised read-only iCalendar subscriptions: one staff member's appointments, or the whole
+// salon's when staffId is null. The token in the feed URL is the only credential.
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  token: text("token").notNull().unique(),
+  staffId: varchar("staff_id").references(() => staff.id),
+  createdBy: text("created_by").notNull(), // username of the admin who created it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastAccessedAt: timestamp("last_accessed_at"), // last time a calendar app fetched it
+});
+
+// Append-only history of appointment changes: who did what, the tracked fields before
+// and after, and whether Odoo accepted the change
+export const appointmentAuditLog = pgTable("appointment_audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull(), // no FK: deletions are logged too
+  odooEventId: integer("odoo_event_id"),
+  action: text("action").notNull(), // created, booked, imported, updated, rescheduled, cancelled, deleted
+  actorUserId: varchar("actor_user_id"),
+  actorName: text("actor_name").notNull(), // username, or "Odoo" for changes pulled by sync
+  before: text("before"), // JSON of startTime, endTime, staffId, status
+  after: text("after"),
+  odooStatus: text("odoo_status").notNull(), // synced, queued, local (not sent to Odoo), odoo (came from Odoo)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
 export const insertStaffSchema = createInsertSchema(staff).omit({
   id: true,
   createdAt: true,
@@ -65,6 +162,46 @@ export const insertAppointmentSchema = createInsertSchema(appointments).omit({
 export const insertCalendarSettingsSchema = createInsertSchema(calendarSettings).omit({
   id: true,
   lastOdooSync: true,
+  lastOdooWriteDate: true,
+  updatedAt: true,
+});
+
+export const insertSyncRunSchema = createInsertSchema(syncRuns).omit({
+  id: true,
+  startedAt: true,
+});
+
+// Failed retries after which an outbox item is marked failed (about four hours of backoff)
+export const MAX_OUTBOX_ATTEMPTS = 10;
+
+export const insertOdooOutboxSchema = createInsertSchema(odooOutbox).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAppointmentAuditSchema = createInsertSchema(appointmentAuditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertStaffLeaveSchema = createInsertSchema(staffLeaves).omit({
+  id: true,
+  lastSynced: true,
+});
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
+  id: true,
+  createdAt: true,
+  lastAccessedAt: true,
+});
+
+export const insertAppointmentTypeTimingSchema = createInsertSchema(appointmentTypeTimings, {
+  preBufferMinutes: z.number().int().min(0).max(240),
+  postBufferMinutes: z.number().int().min(0).max(240),
+  processingOffsetMinutes: z.number().int().min(0),
+  processingMinutes: z.number().int().min(0),
+}).omit({
+  id: true,
   updatedAt: true,
 });
 
@@ -72,15 +209,226 @@ export type InsertStaff = z.infer<typeof insertStaffSchema>;
 export type Staff = typeof staff.$inferSelect;
 
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
+
+export const cancellationReasons = ["customer_request", "no_show", "illness", "salon_closed"] as const;
+export type CancellationReason = typeof cancellationReasons[number];
+
+export const appointmentStatuses = ["confirmed", "checked_in", "in_progress", "completed", "no_show", "cancelled"] as const;
+export type AppointmentStatus = typeof appointmentStatuses[number];
+
+// The front desk's day: confirmed -> checked in -> in progress -> completed, or a no-show
+// when the customer never arrives. Cancelling and restoring have their own endpoints.
+export const appointmentTransitions = {
+  "check-in": { from: ["confirmed"], to: "checked_in" },
+  "start": { from: ["checked_in"], to: "in_progress" },
+  "complete": { from: ["in_progress"], to: "completed" },
+  "no-show": { from: ["confirmed"], to: "no_show" },
+} as const satisfies Record<string, { from: readonly AppointmentStatus[]; to: AppointmentStatus }>;
+export type AppointmentTransition = keyof typeof appointmentTransitions;
+
+// Statuses an appointment can still be cancelled from
+export const cancellableStatuses: readonly AppointmentStatus[] = ["confirmed", "checked_in"];
+
+export function getAvailableTransitions(status: string): AppointmentTransition[] {
+  return (Object.keys(appointmentTransitions) as AppointmentTransition[]).filter(transition =>
+    (appointmentTransitions[transition].from as readonly string[]).includes(status)
+  );
+}
+
+// Recurring bookings repeat weekly on the weekday of the first occurrence, mirroring
+// Odoo's calendar.event recurrence fields (interval, end_type, count, until)
+export const MAX_OCCURRENCES = 52;
+
+export const recurrenceRuleSchema = z.object({
+  intervalWeeks: z.number().int().min(1).max(52),
+  endType: z.enum(["count", "end_date"]),
+  count: z.number().int().min(2).max(MAX_OCCURRENCES).optional(),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date").optional(),
+}).refine(
+  rule => rule.endType === "count" ? rule.count !== undefined : rule.until !== undefined,
+  { message: "count is required when ending after a number of occurrences, until when ending on a date" }
+);
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+// Which occurrences of a series an edit applies to
+export const seriesScopes = ["occurrence", "following", "all"] as const;
+export type SeriesScope = typeof seriesScopes[number];
+
+// One service of a multi-service booking: segments are booked back to back, in order,
+// each as its own Odoo event with its own staff member
+export const bookingSegmentSchema = z.object({
+  appointmentTypeId: z.number().int(),
+  staffId: z.string().min(1),
+});
+export type BookingSegment = z.infer<typeof bookingSegmentSchema>;
+
+// One occurrence of a series that can't be booked, and why
+export interface OccurrenceConflict {
+  start: string;
+  end: string;
+  reasons: AvailabilityReason[];
+}
+
+// Query-string lists such as status=confirmed,checked_in
+const commaSeparated = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  value => typeof value === "string" ? value.split(",").filter(Boolean) : value,
+  z.array(item).min(1)
+);
+
+// Agenda search: appointments from `start` on, oldest first, a page at a time. `q` matches
+// customer name, service and notes; `category` is the color of an appointment category;
+// `cursor` is the nextCursor of the previous page.
+export const appointmentSearchSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  status: commaSeparated(z.enum(appointmentStatuses)).optional(),
+  staffId: commaSeparated(z.string().min(1)).optional(),
+  category: z.string().min(1).optional(),
+  start: z.coerce.date().optional(),
+  end: z.coerce.date().optional(),
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+export type AppointmentSearch = z.infer<typeof appointmentSearchSchema>;
+
+export interface AppointmentPage {
+  appointments: Appointment[];
+  nextCursor: string | null;
+}
+
+// Appointments migrated from another tool's .ics export. Events without a recognised staff
+// member or service use the defaults; `keys` picks the previewed rows to create, and rows
+// with conflicts are only created when `allowConflicts` is set.
+export const MAX_IMPORT_APPOINTMENTS = 500;
+
+export const icsImportSchema = z.object({
+  ics: z.string().min(1),
+  defaultStaffId: z.string().min(1).optional(),
+  defaultAppointmentTypeId: z.number().int().optional(),
+  keys: z.array(z.string()).optional(),
+  allowConflicts: z.boolean().optional(),
+});
+export type IcsImportRequest = z.infer<typeof icsImportSchema>;
+
+// One appointment found in the file: a single event or one occurrence of a recurring one
+export interface IcsImportRow {
+  key: string; // event UID and start, identifies the row when importing
+  summary: string;
+  start: string;
+  end: string;
+  customerName: string;
+  customerEmail: string | null;
+  staffId: string | null;
+  appointmentTypeId: number | null;
+  service: string | null;
+  notes: string | null;
+  error: string | null; // why the row can't be imported, e.g. no matching staff member
+  reasons: AvailabilityReason[]; // conflicts with existing appointments or other rows
+}
+
+export interface IcsImportPreview {
+  rows: IcsImportRow[];
+  // Events left out as a whole (all-day, cancelled, unsupported recurrence...)
+  skipped: { uid: string; summary: string; reason: string }[];
+  // Occurrences before now or beyond the booking window
+  outsideWindow: number;
+}
+
+export interface IcsImportResult {
+  created: number;
+  failed: { key: string; summary: string; error: string }[];
+  // Picked rows left out because they conflict, when conflicts aren't allowed
+  conflicts: { key: string; summary: string; reasons: AvailabilityReason[] }[];
+}
 export type Appointment = typeof appointments.$inferSelect;
 
 export type InsertCalendarSettings = z.infer<typeof insertCalendarSettingsSchema>;
 export type CalendarSettings = typeof calendarSettings.$inferSelect;
 
+export type SyncRun = typeof syncRuns.$inferSelect;
+export type InsertSyncRun = z.infer<typeof insertSyncRunSchema>;
+
+export type OdooOutboxItem = typeof odooOutbox.$inferSelect;
+export type InsertOdooOutboxItem = z.infer<typeof insertOdooOutboxSchema>;
+
+// A working period as stored (JSON array) in staff.workingHours; dayOfWeek is Odoo's, 0=Monday
+export interface WorkingHoursPeriod {
+  dayOfWeek: number;
+  hourFrom: number;
+  hourTo: number;
+  dayPeriod?: string;
+  name?: string;
+}
+
+// Why a slot can't be booked, as returned by the availability check on booking and rescheduling
+export type AvailabilityReasonCode =
+  | "invalid_time_range"
+  | "staff_inactive"
+  | "inactive_day"
+  | "outside_working_hours"
+  | "beyond_booking_window"
+  | "on_leave"
+  | "overlap"
+  | "buffer_overlap";
+
+export interface AvailabilityReason {
+  code: AvailabilityReasonCode;
+  message: string;
+  conflictingAppointmentId?: string;
+}
+
+export interface AvailabilityResult {
+  available: boolean;
+  reasons: AvailabilityReason[];
+}
+
+// A free slot as returned by GET /api/availability
+export interface AvailableSlot {
+  staffId: string;
+  staffName: string;
+  start: string;
+  end: string;
+}
+
+export type AppointmentTypeTiming = typeof appointmentTypeTimings.$inferSelect;
+export type InsertAppointmentTypeTiming = z.infer<typeof insertAppointmentTypeTimingSchema>;
+
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+
+export type AppointmentAuditEntry = typeof appointmentAuditLog.$inferSelect;
+export type InsertAppointmentAuditEntry = z.infer<typeof insertAppointmentAuditSchema>;
+
+// The appointment fields captured in audit entries (dates as ISO strings)
+export interface AuditedAppointmentFields {
+  startTime: string;
+  endTime: string;
+  staffId: string | null;
+  status: string;
+}
+
+// An audit entry as returned by GET /api/appointments/:id/history
+export type AppointmentHistoryEntry = Omit<AppointmentAuditEntry, "before" | "after"> & {
+  before: AuditedAppointmentFields | null;
+  after: AuditedAppointmentFields | null;
+};
+
+export type StaffLeave = typeof staffLeaves.$inferSelect;
+export type InsertStaffLeave = z.infer<typeof insertStaffLeaveSchema>;
+
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export const userRoles = ["admin", "receptionist", "stylist"] as const;
+export type UserRole = typeof userRoles[number];
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+  staffId: true,
+}).extend({
+  role: z.enum(userRoles).optional(),
 });
+
+// A user as sent to the client, without the password hash
+export type PublicUser = Omit<User, "password">;